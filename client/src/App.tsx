@@ -9,6 +9,7 @@ import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
 import CreateItinerary from "@/pages/create-itinerary";
 import ItineraryView from "@/pages/itinerary-view";
+import SharedItineraryPage from "@/pages/shared-itinerary";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -18,6 +19,7 @@ function Router() {
       <ProtectedRoute path="/create" component={CreateItinerary} />
       <ProtectedRoute path="/itinerary/:id" component={ItineraryView} />
       <Route path="/auth" component={AuthPage} />
+      <Route path="/s/:token" component={SharedItineraryPage} />
       <Route component={NotFound} />
     </Switch>
   );
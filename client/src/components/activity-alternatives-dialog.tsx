@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { MapPin, Shuffle } from "lucide-react";
+import { type Itinerary } from "@shared/schema";
+import { type Activity } from "@shared/itinerary";
+import { formatActivityTime } from "@shared/activity-time";
+
+interface ActivityAlternativesDialogProps {
+  itineraryId: number;
+  dayNumber: number;
+  activityIndex: number;
+  activity: Activity;
+}
+
+export function ActivityAlternativesDialog({
+  itineraryId,
+  dayNumber,
+  activityIndex,
+  activity,
+}: ActivityAlternativesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const activityUrl = `/api/itineraries/${itineraryId}/days/${dayNumber}/activities/${activityIndex}`;
+
+  const alternativesMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${activityUrl}/alternatives`);
+      const data = (await res.json()) as { alternatives: Activity[] };
+      return data.alternatives;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't find alternatives",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const swapMutation = useMutation({
+    mutationFn: async (replacement: Activity) => {
+      const res = await apiRequest("POST", `${activityUrl}/swap`, {
+        activity: replacement,
+      });
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (itinerary) => {
+      queryClient.setQueryData(
+        ["/api/itineraries", itineraryId.toString()],
+        itinerary
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      toast({
+        title: "Activity swapped",
+        description: "Your itinerary has been updated.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Swap failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (newOpen) {
+      alternativesMutation.mutate();
+    } else {
+      alternativesMutation.reset();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-slate-500 hover:text-primary"
+          title="Swap for an alternative"
+        >
+          <Shuffle className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Swap Activity</DialogTitle>
+          <DialogDescription>
+            Pick a replacement for "{activity.activity}". Alternatives keep the
+            same {activity.period} slot and stay nearby.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3 py-2">
+          {alternativesMutation.isPending
+            ? [...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))
+            : alternativesMutation.data?.map((alternative, index) => (
+                <button
+                  key={index}
+                  type="button"
+                  className="w-full text-left p-4 rounded-xl border border-slate-200 hover:border-primary hover:bg-primary/5 transition-colors disabled:opacity-50"
+                  onClick={() => swapMutation.mutate(alternative)}
+                  disabled={swapMutation.isPending}
+                >
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-sm text-slate-500">
+                      {formatActivityTime(alternative)}
+                    </span>
+                    {alternative.duration && (
+                      <Badge variant="secondary" className="text-xs">
+                        {alternative.duration}
+                      </Badge>
+                    )}
+                    {alternative.cost && (
+                      <Badge variant="outline" className="text-xs">
+                        {alternative.cost}
+                      </Badge>
+                    )}
+                  </div>
+                  <p className="text-slate-700">{alternative.activity}</p>
+                  <p className="text-sm text-slate-500 flex items-center">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {alternative.location}
+                  </p>
+                </button>
+              ))}
+          {alternativesMutation.isError && (
+            <div className="text-center py-4">
+              <Button
+                variant="outline"
+                onClick={() => alternativesMutation.mutate()}
+              >
+                Try Again
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
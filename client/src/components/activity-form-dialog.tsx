@@ -0,0 +1,416 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Edit3, Plus, Trash2 } from "lucide-react";
+import { type Itinerary } from "@shared/schema";
+import { activitySchema, type Activity, type Money } from "@shared/itinerary";
+import { formatLocalTime } from "@shared/activity-time";
+
+// Amounts are edited as text and share one currency field. The display time
+// and duration follow from the start and end times. Geocoding results are not
+// editable; they are kept while the location stays the same.
+type ActivityForm = Required<
+  Omit<
+    Activity,
+    | "time"
+    | "duration"
+    | "coordinates"
+    | "locationUnresolved"
+    | "estimatedCost"
+    | "actualCost"
+  >
+> & {
+  estimatedAmount: string;
+  actualAmount: string;
+  currency: string;
+};
+
+const emptyForm: ActivityForm = {
+  startTime: "",
+  endTime: "",
+  pinned: false,
+  period: "morning",
+  activity: "",
+  location: "",
+  cost: "",
+  estimatedAmount: "",
+  actualAmount: "",
+  currency: "",
+  notes: "",
+};
+
+const toForm = (
+  activity?: Activity,
+  defaultCurrency?: string | null
+): ActivityForm => {
+  const {
+    time,
+    duration,
+    coordinates,
+    locationUnresolved,
+    estimatedCost,
+    actualCost,
+    ...fields
+  } = activity ?? {};
+  return {
+    ...emptyForm,
+    ...fields,
+    estimatedAmount: estimatedCost?.amount.toString() ?? "",
+    actualAmount: actualCost?.amount.toString() ?? "",
+    currency:
+      estimatedCost?.currency ?? actualCost?.currency ?? defaultCurrency ?? "",
+  };
+};
+
+const toMoney = (amount: string, currency: string): Money | undefined =>
+  amount.trim()
+    ? { amount: Number(amount), currency: currency.trim().toUpperCase() }
+    : undefined;
+
+// Optional fields are left out rather than saved as empty strings
+const fromForm = (form: ActivityForm): Activity => ({
+  startTime: form.startTime || undefined,
+  endTime: form.endTime || undefined,
+  time: form.startTime ? formatLocalTime(form.startTime) : "",
+  pinned: form.pinned || undefined,
+  period: form.period,
+  activity: form.activity.trim(),
+  location: form.location.trim(),
+  cost: form.cost.trim() || undefined,
+  estimatedCost: toMoney(form.estimatedAmount, form.currency),
+  actualCost: toMoney(form.actualAmount, form.currency),
+  notes: form.notes.trim() || undefined,
+});
+
+interface ActivityFormDialogProps {
+  itineraryId: number;
+  dayNumber: number;
+  // When given, the dialog edits this activity instead of adding a new one
+  activity?: Activity;
+  activityIndex?: number;
+  // The itinerary's updatedAt, sent with edits so the server can reject them
+  // if someone changed the itinerary while the dialog was open
+  updatedAt?: Date;
+  // Prefills the currency of new costs, usually the trip budget's currency
+  defaultCurrency?: string | null;
+}
+
+export function ActivityFormDialog({
+  itineraryId,
+  dayNumber,
+  activity,
+  activityIndex,
+  updatedAt,
+  defaultCurrency,
+}: ActivityFormDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [openedAt, setOpenedAt] = useState(updatedAt);
+  const [form, setForm] = useState<ActivityForm>(
+    toForm(activity, defaultCurrency)
+  );
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const isEditing = activity !== undefined && activityIndex !== undefined;
+  const activitiesUrl = `/api/itineraries/${itineraryId}/days/${dayNumber}/activities`;
+
+  const onSaved = (itinerary: Itinerary, title: string) => {
+    queryClient.setQueryData(
+      ["/api/itineraries", itineraryId.toString()],
+      itinerary
+    );
+    queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+    toast({ title, description: `Day ${dayNumber} has been updated.` });
+    setOpen(false);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't save activity",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: Activity) => {
+      const res = isEditing
+        ? await apiRequest("PUT", `${activitiesUrl}/${activityIndex}`, {
+            activity: data,
+            expectedUpdatedAt: openedAt,
+          })
+        : await apiRequest("POST", activitiesUrl, { activity: data });
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (itinerary) =>
+      onSaved(itinerary, isEditing ? "Activity updated" : "Activity added"),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "DELETE",
+        `${activitiesUrl}/${activityIndex}`,
+        { expectedUpdatedAt: openedAt }
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (itinerary) => onSaved(itinerary, "Activity deleted"),
+    onError,
+  });
+
+  const isPending = saveMutation.isPending || deleteMutation.isPending;
+
+  const update =
+    (field: Exclude<keyof ActivityForm, "pinned">) => (value: string) =>
+      setForm((current) => ({ ...current, [field]: value }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const sameLocation = activity?.location === form.location.trim();
+    const result = activitySchema.safeParse({
+      ...fromForm(form),
+      coordinates: sameLocation ? activity.coordinates : undefined,
+      locationUnresolved: sameLocation
+        ? activity.locationUnresolved
+        : undefined,
+    });
+    if (!result.success) {
+      toast({
+        title: "Missing details",
+        description:
+          "Start time, activity and location are required, and costs need a positive amount and a currency code like EUR.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(result.data);
+  };
+
+  const handleDelete = () => {
+    if (
+      window.confirm(`Delete "${activity?.activity}" from day ${dayNumber}?`)
+    ) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (newOpen) {
+      // Start from the latest saved values each time the dialog opens
+      setForm(toForm(activity, defaultCurrency));
+      setOpenedAt(updatedAt);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {isEditing ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-500 hover:text-primary"
+            title="Edit activity"
+          >
+            <Edit3 className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Activity
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {isEditing ? "Edit Activity" : `Add Activity to Day ${dayNumber}`}
+            </DialogTitle>
+            <DialogDescription>
+              {isEditing
+                ? "Correct the details of this activity."
+                : "Add your own plans, like a dinner reservation."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="activity-start">Starts</Label>
+                <Input
+                  id="activity-start"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => update("startTime")(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="activity-end">Ends</Label>
+                <Input
+                  id="activity-end"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => update("endTime")(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Part of day</Label>
+                <Select value={form.period} onValueChange={update("period")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="morning">Morning</SelectItem>
+                    <SelectItem value="afternoon">Afternoon</SelectItem>
+                    <SelectItem value="evening">Evening</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={form.pinned}
+                onCheckedChange={(checked) =>
+                  setForm((current) => ({
+                    ...current,
+                    pinned: checked === true,
+                  }))
+                }
+              />
+              <span>Keep at this time when optimizing the route</span>
+            </label>
+            <div className="grid gap-2">
+              <Label htmlFor="activity-name">Activity</Label>
+              <Input
+                id="activity-name"
+                value={form.activity}
+                onChange={(e) => update("activity")(e.target.value)}
+                placeholder="Dinner at Trattoria da Mario"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="activity-location">Location</Label>
+              <Input
+                id="activity-location"
+                value={form.location}
+                onChange={(e) => update("location")(e.target.value)}
+                placeholder="Via Faenza 16, Florence"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="activity-cost">Price range</Label>
+              <Input
+                id="activity-cost"
+                value={form.cost}
+                onChange={(e) => update("cost")(e.target.value)}
+                placeholder="€€"
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="activity-estimated">Estimated cost</Label>
+                <Input
+                  id="activity-estimated"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.estimatedAmount}
+                  onChange={(e) => update("estimatedAmount")(e.target.value)}
+                  placeholder="40"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="activity-actual">Actual spend</Label>
+                <Input
+                  id="activity-actual"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.actualAmount}
+                  onChange={(e) => update("actualAmount")(e.target.value)}
+                  placeholder="45"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="activity-currency">Currency</Label>
+                <Input
+                  id="activity-currency"
+                  value={form.currency}
+                  onChange={(e) => update("currency")(e.target.value)}
+                  placeholder="EUR"
+                  maxLength={3}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="activity-notes">Notes</Label>
+              <Textarea
+                id="activity-notes"
+                value={form.notes}
+                onChange={(e) => update("notes")(e.target.value)}
+                placeholder="Booked for 4 people"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            {isEditing && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-red-500 hover:text-white hover:bg-red-600 sm:mr-auto"
+                onClick={handleDelete}
+                disabled={isPending}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {saveMutation.isPending
+                ? "Saving..."
+                : isEditing
+                  ? "Save Activity"
+                  : "Add Activity"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,304 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { apiRequest } from "@/lib/queryClient";
+import { budgetCurrency, summarizeBudget } from "@/lib/budget";
+import { formatMoney } from "@shared/currency";
+import { Wallet } from "lucide-react";
+import { type Itinerary } from "@shared/schema";
+import {
+  currencyCodeSchema,
+  type GeneratedItinerary,
+  type Money,
+} from "@shared/itinerary";
+
+const chartConfig: ChartConfig = {
+  planned: { label: "Planned", color: "var(--primary)" },
+  actual: { label: "Actual", color: "var(--accent)" },
+};
+
+interface BudgetPanelProps {
+  itinerary: Itinerary;
+  generatedContent: GeneratedItinerary;
+  canEdit: boolean;
+  formatCost?: (money: Money) => string;
+}
+
+export function BudgetPanel({
+  itinerary,
+  generatedContent,
+  canEdit,
+  formatCost = formatMoney,
+}: BudgetPanelProps) {
+  const { rates } = useCurrency();
+  const currency = budgetCurrency(generatedContent, itinerary.budgetCurrency);
+  const summary = currency
+    ? summarizeBudget(generatedContent, currency, rates)
+    : null;
+  const money = (amount: number) =>
+    formatCost({ amount, currency: summary?.currency ?? "" });
+
+  const budget = itinerary.budgetAmount;
+  const remaining = budget !== null && summary ? budget - summary.actual : null;
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardContent className="p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center">
+            <Wallet className="h-5 w-5 text-primary mr-2" />
+            Budget
+          </h3>
+          {canEdit && <SetBudgetDialog itinerary={itinerary} />}
+        </div>
+
+        {!summary ? (
+          <p className="text-slate-500">
+            No costs have been estimated for this trip yet. Add amounts to
+            activities or set a budget to start tracking spend.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <div className="text-sm text-slate-500">Budget</div>
+                <div className="font-semibold text-slate-800">
+                  {budget !== null ? money(budget) : "Not set"}
+                </div>
+              </div>
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <div className="text-sm text-slate-500">Planned</div>
+                <div className="font-semibold text-slate-800">
+                  {money(summary.planned)}
+                </div>
+              </div>
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <div className="text-sm text-slate-500">Spent</div>
+                <div className="font-semibold text-slate-800">
+                  {money(summary.actual)}
+                </div>
+              </div>
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <div className="text-sm text-slate-500">Remaining</div>
+                <div
+                  className={`font-semibold ${
+                    remaining !== null && remaining < 0
+                      ? "text-red-600"
+                      : "text-slate-800"
+                  }`}
+                >
+                  {remaining !== null ? money(remaining) : "—"}
+                </div>
+              </div>
+            </div>
+
+            {budget !== null && budget > 0 && (
+              <div className="mb-6">
+                <div className="flex justify-between text-sm text-slate-500 mb-2">
+                  <span>Spent of budget</span>
+                  <span>{Math.round((summary.actual / budget) * 100)}%</span>
+                </div>
+                <Progress
+                  value={Math.min((summary.actual / budget) * 100, 100)}
+                />
+              </div>
+            )}
+
+            <ChartContainer config={chartConfig} className="h-64 w-full">
+              <BarChart data={summary.days}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={48} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent
+                      formatter={(value, name) => (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {chartConfig[name]?.label ?? name}
+                          </span>
+                          <span className="font-mono font-medium">
+                            {money(Number(value))}
+                          </span>
+                        </div>
+                      )}
+                    />
+                  }
+                />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="planned" fill="var(--color-planned)" radius={4} />
+                <Bar dataKey="actual" fill="var(--color-actual)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+
+            {summary.excluded > 0 && (
+              <p className="text-sm text-slate-500 mt-4">
+                {summary.excluded} cost
+                {summary.excluded === 1 ? " is" : "s are"} in a currency without
+                an exchange rate and not included in these totals.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function SetBudgetDialog({ itinerary }: { itinerary: Itinerary }) {
+  const [open, setOpen] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const budgetMutation = useMutation({
+    mutationFn: async (data: {
+      budgetAmount: number | null;
+      budgetCurrency: string | null;
+    }) => {
+      const res = await apiRequest(
+        "PUT",
+        `/api/itineraries/${itinerary.id}`,
+        data
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(
+        ["/api/itineraries", itinerary.id.toString()],
+        updated
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      toast({
+        title: "Budget updated",
+        description:
+          updated.budgetAmount !== null
+            ? `Your trip budget is now ${formatMoney({
+                amount: updated.budgetAmount,
+                currency: updated.budgetCurrency ?? "",
+              })}.`
+            : "The trip budget has been cleared.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update budget",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!amount.trim()) {
+      budgetMutation.mutate({ budgetAmount: null, budgetCurrency: null });
+      return;
+    }
+
+    const budgetAmount = Number(amount);
+    const code = currencyCodeSchema.safeParse(currency.trim().toUpperCase());
+    if (!Number.isFinite(budgetAmount) || budgetAmount < 0 || !code.success) {
+      toast({
+        title: "Invalid budget",
+        description:
+          "Enter a positive amount and a currency code like EUR or USD.",
+        variant: "destructive",
+      });
+      return;
+    }
+    budgetMutation.mutate({ budgetAmount, budgetCurrency: code.data });
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (newOpen) {
+      setAmount(itinerary.budgetAmount?.toString() ?? "");
+      setCurrency(itinerary.budgetCurrency ?? "");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          {itinerary.budgetAmount !== null ? "Edit Budget" : "Set Budget"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Trip Budget</DialogTitle>
+            <DialogDescription>
+              Set the total you plan to spend. Leave the amount empty to clear
+              it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-3 gap-4 py-4">
+            <div className="grid gap-2 col-span-2">
+              <Label htmlFor="budget-amount">Amount</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="2000"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="budget-currency">Currency</Label>
+              <Input
+                id="budget-currency"
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                placeholder="EUR"
+                maxLength={3}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={budgetMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={budgetMutation.isPending}>
+              {budgetMutation.isPending ? "Saving..." : "Save Budget"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
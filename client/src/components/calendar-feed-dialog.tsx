@@ -0,0 +1,153 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CalendarDays, Copy, RefreshCw } from "lucide-react";
+import { type User } from "@shared/schema";
+
+const feedUrl = (token: string) =>
+  `webcal://${window.location.host}/api/calendar/${token}.ics`;
+
+// Subscribing keeps calendar apps in sync with every saved trip, unlike a
+// one-off .ics download
+export function CalendarFeedDialog() {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const token = user?.calendarToken;
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't update calendar feed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/calendar-feed");
+      return (await res.json()) as User;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      if (updated.calendarToken) copyUrl(updated.calendarToken);
+    },
+    onError,
+  });
+
+  const disableFeedMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/user/calendar-feed");
+      return (await res.json()) as User;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/user"], updated);
+      toast({
+        title: "Calendar feed turned off",
+        description: "Subscribed calendars will stop receiving updates.",
+      });
+    },
+    onError,
+  });
+
+  const copyUrl = async (feedToken: string) => {
+    try {
+      await navigator.clipboard.writeText(feedUrl(feedToken));
+      toast({
+        title: "Feed link copied",
+        description: "Add it to your calendar app as a subscription.",
+      });
+    } catch {
+      // Clipboard access can be blocked; the link is still shown
+    }
+  };
+
+  const handleReset = () => {
+    if (
+      window.confirm(
+        "Create a new feed link? Calendars using the current link will stop updating."
+      )
+    ) {
+      createFeedMutation.mutate();
+    }
+  };
+
+  const isPending =
+    createFeedMutation.isPending || disableFeedMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Calendar feed">
+          <CalendarDays className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar Feed</DialogTitle>
+          <DialogDescription>
+            Subscribe in Google, Apple or Outlook Calendar to see the activities
+            of all your saved trips. The link is private; anyone who has it can
+            see your trips.
+          </DialogDescription>
+        </DialogHeader>
+        {token ? (
+          <div className="space-y-4">
+            <div className="flex items-center space-x-2">
+              <Input value={feedUrl(token)} readOnly className="text-sm" />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => copyUrl(token)}
+                title="Copy link"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-500 hover:text-white hover:bg-red-600"
+                onClick={() => disableFeedMutation.mutate()}
+                disabled={isPending}
+              >
+                Turn Off
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleReset}
+                disabled={isPending}
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                New Link
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            onClick={() => createFeedMutation.mutate()}
+            disabled={isPending}
+          >
+            {createFeedMutation.isPending
+              ? "Creating..."
+              : "Create Calendar Feed"}
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
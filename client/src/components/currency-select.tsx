@@ -0,0 +1,61 @@
+import { useMutation } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { type User } from "@shared/schema";
+
+// Lets the signed-in user pick the home currency costs are converted into.
+// Only currencies in the imported rate table can be converted.
+export function CurrencySelect() {
+  const { currency, rates } = useCurrency();
+  const { toast } = useToast();
+
+  const currencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const res = await apiRequest("PATCH", "/api/user", { currency });
+      return (await res.json()) as User;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't change currency",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!currency) return null;
+
+  const currencies = Array.from(
+    new Set([currency, ...rates.map((rate) => rate.currency)])
+  ).sort();
+
+  return (
+    <Select
+      value={currency}
+      onValueChange={(value) => currencyMutation.mutate(value)}
+      disabled={currencyMutation.isPending}
+    >
+      <SelectTrigger className="w-24" title="Your currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {currencies.map((code) => (
+          <SelectItem key={code} value={code}>
+            {code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
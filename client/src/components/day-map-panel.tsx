@@ -0,0 +1,321 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { periodColors } from "@/components/itinerary-content";
+import {
+  fitView,
+  project,
+  tileUrl,
+  unproject,
+  TILE_SIZE,
+  type MapView,
+  type Point,
+} from "@/lib/map";
+import { Map as MapIcon, Minus, Plus, LocateFixed } from "lucide-react";
+import {
+  type Activity,
+  type Coordinates,
+  type DayPlan,
+} from "@shared/itinerary";
+import { type MapConfig } from "@shared/map";
+import { formatActivityTime } from "@shared/activity-time";
+
+const MAP_HEIGHT = 420;
+const MIN_ZOOM = 2;
+
+interface Stop {
+  activity: Activity;
+  coordinates: Coordinates;
+  // Position in the day, counting activities that have no coordinates
+  number: number;
+}
+
+interface DayMapPanelProps {
+  days: DayPlan[];
+}
+
+// Pins each day's activities in visiting order on raster tiles from the
+// configured tile server. Drag to pan; the buttons zoom.
+export function DayMapPanel({ days }: DayMapPanelProps) {
+  const { data: config } = useQuery<MapConfig>({
+    queryKey: ["/api/map-config"],
+    staleTime: Infinity,
+  });
+  const [dayNumber, setDayNumber] = useState(days[0].day);
+  const day = days.find((d) => d.day === dayNumber) ?? days[0];
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setWidth(entry.contentRect.width)
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const stops: Stop[] = day.activities.flatMap((activity, index) =>
+    activity.coordinates
+      ? [{ activity, coordinates: activity.coordinates, number: index + 1 }]
+      : []
+  );
+  const unplaced = day.activities.length - stops.length;
+
+  // Panning and zooming override the fitted view until the day changes
+  const [movedView, setMovedView] = useState<MapView | null>(null);
+  useEffect(() => setMovedView(null), [dayNumber]);
+
+  const maxZoom = config?.maxZoom ?? 19;
+  const view =
+    movedView ??
+    fitView(
+      stops.map((stop) => stop.coordinates),
+      width,
+      MAP_HEIGHT,
+      maxZoom
+    );
+
+  const centerPx = project(view.center, view.zoom);
+  const origin: Point = {
+    x: centerPx.x - width / 2,
+    y: centerPx.y - MAP_HEIGHT / 2,
+  };
+  const toScreen = (coordinates: Coordinates): Point => {
+    const point = project(coordinates, view.zoom);
+    return { x: point.x - origin.x, y: point.y - origin.y };
+  };
+
+  const tileCount = 2 ** view.zoom;
+  const tiles: { key: string; src: string; left: number; top: number }[] = [];
+  if (config && width > 0) {
+    const firstX = Math.floor(origin.x / TILE_SIZE);
+    const lastX = Math.floor((origin.x + width) / TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(origin.y / TILE_SIZE));
+    const lastY = Math.min(
+      tileCount - 1,
+      Math.floor((origin.y + MAP_HEIGHT) / TILE_SIZE)
+    );
+    for (let x = firstX; x <= lastX; x++) {
+      for (let y = firstY; y <= lastY; y++) {
+        // Wrap around the antimeridian
+        const wrappedX = ((x % tileCount) + tileCount) % tileCount;
+        tiles.push({
+          key: `${view.zoom}/${x}/${y}`,
+          src: tileUrl(config.tileUrl, view.zoom, wrappedX, y),
+          left: x * TILE_SIZE - origin.x,
+          top: y * TILE_SIZE - origin.y,
+        });
+      }
+    }
+  }
+
+  const dragRef = useRef<{ pointer: Point; center: Point } | null>(null);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      pointer: { x: e.clientX, y: e.clientY },
+      center: centerPx,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setMovedView({
+      center: unproject(
+        {
+          x: drag.center.x - (e.clientX - drag.pointer.x),
+          y: drag.center.y - (e.clientY - drag.pointer.y),
+        },
+        view.zoom
+      ),
+      zoom: view.zoom,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomBy = (delta: number) =>
+    setMovedView({
+      center: view.center,
+      zoom: Math.min(maxZoom, Math.max(MIN_ZOOM, view.zoom + delta)),
+    });
+
+  const route = stops
+    .map((stop) => {
+      const point = toScreen(stop.coordinates);
+      return `${point.x},${point.y}`;
+    })
+    .join(" ");
+
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardContent className="p-8">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold text-slate-800 flex items-center">
+            <MapIcon className="h-5 w-5 text-primary mr-2" />
+            Day Map
+          </h3>
+          <Select
+            value={day.day.toString()}
+            onValueChange={(value) => setDayNumber(parseInt(value))}
+          >
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {days.map((d) => (
+                <SelectItem key={d.day} value={d.day.toString()}>
+                  Day {d.day} · {d.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div
+          ref={containerRef}
+          className="relative overflow-hidden rounded-lg bg-slate-100 touch-none cursor-grab active:cursor-grabbing select-none"
+          style={{ height: MAP_HEIGHT }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onDoubleClick={() => zoomBy(1)}
+        >
+          {!config ? (
+            <Skeleton className="absolute inset-0" />
+          ) : (
+            tiles.map((tile) => (
+              <img
+                key={tile.key}
+                src={tile.src}
+                alt=""
+                draggable={false}
+                className="absolute max-w-none"
+                style={{
+                  left: tile.left,
+                  top: tile.top,
+                  width: TILE_SIZE,
+                  height: TILE_SIZE,
+                }}
+              />
+            ))
+          )}
+
+          {stops.length > 1 && (
+            <svg className="absolute inset-0 h-full w-full pointer-events-none text-slate-600">
+              <polyline
+                points={route}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth={3}
+                strokeDasharray="6 4"
+                strokeLinejoin="round"
+              />
+            </svg>
+          )}
+
+          {stops.map((stop) => {
+            const point = toScreen(stop.coordinates);
+            const color =
+              periodColors[stop.activity.period as keyof typeof periodColors] ||
+              "bg-gray-100 text-gray-600";
+            return (
+              <div
+                key={stop.number}
+                className={`absolute -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full border-2 border-current shadow-md flex items-center justify-center text-sm font-bold ${color}`}
+                style={{ left: point.x, top: point.y }}
+                title={`${stop.number}. ${stop.activity.activity} (${formatActivityTime(stop.activity)}) – ${stop.activity.location}`}
+              >
+                {stop.number}
+              </div>
+            );
+          })}
+
+          {/* Clicks on the controls shouldn't start a drag or zoom the map */}
+          <div
+            className="absolute top-3 right-3 flex flex-col space-y-1"
+            onPointerDown={(e) => e.stopPropagation()}
+            onDoubleClick={(e) => e.stopPropagation()}
+          >
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0 bg-white"
+              onClick={() => zoomBy(1)}
+              disabled={view.zoom >= maxZoom}
+              title="Zoom in"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0 bg-white"
+              onClick={() => zoomBy(-1)}
+              disabled={view.zoom <= MIN_ZOOM}
+              title="Zoom out"
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0 bg-white"
+              onClick={() => setMovedView(null)}
+              disabled={!movedView}
+              title="Show all stops"
+            >
+              <LocateFixed className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {config && (
+            <div className="absolute bottom-0 right-0 bg-white/80 px-1 text-[10px] text-slate-600">
+              {config.attribution}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 mt-4 text-sm text-slate-500">
+          <div className="flex items-center space-x-4">
+            {Object.entries(periodColors).map(([period, color]) => (
+              <span key={period} className="flex items-center capitalize">
+                <span
+                  className={`inline-block w-3 h-3 rounded-full border border-current mr-1 ${color}`}
+                />
+                {period}
+              </span>
+            ))}
+          </div>
+          {stops.length === 0 ? (
+            <span>None of this day's activities have a map location yet.</span>
+          ) : (
+            unplaced > 0 && (
+              <span>
+                {unplaced}{" "}
+                {unplaced === 1 ? "activity isn't" : "activities aren't"} on the
+                map.
+              </span>
+            )
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,335 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Edit3, Plus, Trash2 } from "lucide-react";
+import {
+  itineraryExpenseSchema,
+  type ItineraryCollaborator,
+  type ItineraryExpense,
+} from "@shared/schema";
+import { type DayPlan } from "@shared/itinerary";
+
+const NO_ACTIVITY = "none";
+
+interface ExpenseForm {
+  description: string;
+  amount: string;
+  currency: string;
+  paidBy: string;
+  participantIds: number[];
+  // "day:activity name", or NO_ACTIVITY
+  activityKey: string;
+}
+
+const activityKey = (day: number, activity: string) => `${day}:${activity}`;
+
+interface ExpenseFormDialogProps {
+  itineraryId: number;
+  collaborators: ItineraryCollaborator[];
+  days: DayPlan[];
+  defaultCurrency: string;
+  // When given, the dialog edits this expense instead of logging a new one
+  expense?: ItineraryExpense;
+}
+
+export function ExpenseFormDialog({
+  itineraryId,
+  collaborators,
+  days,
+  defaultCurrency,
+  expense,
+}: ExpenseFormDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const expensesUrl = `/api/itineraries/${itineraryId}/expenses`;
+
+  const toForm = (): ExpenseForm => ({
+    description: expense?.description ?? "",
+    amount: expense?.amount.toString() ?? "",
+    currency: expense?.currency ?? defaultCurrency,
+    paidBy: (expense?.paidBy ?? user?.id ?? "").toString(),
+    participantIds:
+      expense?.participantIds ?? collaborators.map((c) => c.userId),
+    activityKey:
+      expense?.day && expense.activity
+        ? activityKey(expense.day, expense.activity)
+        : NO_ACTIVITY,
+  });
+  const [form, setForm] = useState<ExpenseForm>(toForm);
+
+  const onSaved = (title: string) => {
+    queryClient.invalidateQueries({
+      queryKey: ["/api/itineraries", itineraryId.toString(), "expenses"],
+    });
+    toast({ title });
+    setOpen(false);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Couldn't save expense",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const res = expense
+        ? await apiRequest("PUT", `${expensesUrl}/${expense.id}`, data)
+        : await apiRequest("POST", expensesUrl, data);
+      return (await res.json()) as ItineraryExpense;
+    },
+    onSuccess: () => onSaved(expense ? "Expense updated" : "Expense added"),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `${expensesUrl}/${expense!.id}`);
+    },
+    onSuccess: () => onSaved("Expense deleted"),
+    onError,
+  });
+
+  const isPending = saveMutation.isPending || deleteMutation.isPending;
+
+  const toggleParticipant = (userId: number, checked: boolean) =>
+    setForm((current) => ({
+      ...current,
+      participantIds: checked
+        ? [...current.participantIds, userId]
+        : current.participantIds.filter((id) => id !== userId),
+    }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const [day, ...activity] =
+      form.activityKey === NO_ACTIVITY ? [] : form.activityKey.split(":");
+    const result = itineraryExpenseSchema.safeParse({
+      description: form.description,
+      amount: Number(form.amount),
+      currency: form.currency.trim().toUpperCase(),
+      paidBy: Number(form.paidBy),
+      participantIds: form.participantIds,
+      day: day ? Number(day) : null,
+      activity: day ? activity.join(":") : null,
+    });
+    if (!result.success) {
+      toast({
+        title: "Missing details",
+        description:
+          "Add a description, a positive amount with a currency code, who paid and who shares it.",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(result.data);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete the expense "${expense?.description}"?`)) {
+      deleteMutation.mutate();
+    }
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    setOpen(newOpen);
+    if (newOpen) setForm(toForm());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {expense ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-slate-500 hover:text-primary"
+            title="Edit expense"
+          >
+            <Edit3 className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button variant="outline" size="sm">
+            <Plus className="h-4 w-4 mr-1" />
+            Add Expense
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {expense ? "Edit Expense" : "Add Expense"}
+            </DialogTitle>
+            <DialogDescription>
+              Record who paid and who shares the cost. It is split evenly.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="expense-description">Description</Label>
+              <Input
+                id="expense-description"
+                value={form.description}
+                onChange={(e) =>
+                  setForm({ ...form, description: e.target.value })
+                }
+                placeholder="Dinner at Trattoria da Mario"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2 col-span-2">
+                <Label htmlFor="expense-amount">Amount</Label>
+                <Input
+                  id="expense-amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.amount}
+                  onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                  placeholder="120"
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="expense-currency">Currency</Label>
+                <Input
+                  id="expense-currency"
+                  value={form.currency}
+                  onChange={(e) =>
+                    setForm({ ...form, currency: e.target.value })
+                  }
+                  placeholder="EUR"
+                  maxLength={3}
+                  required
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>Paid by</Label>
+              <Select
+                value={form.paidBy}
+                onValueChange={(paidBy) => setForm({ ...form, paidBy })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Who paid?" />
+                </SelectTrigger>
+                <SelectContent>
+                  {collaborators.map((collaborator) => (
+                    <SelectItem
+                      key={collaborator.userId}
+                      value={collaborator.userId.toString()}
+                    >
+                      {collaborator.username}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label>Split between</Label>
+              <div className="grid grid-cols-2 gap-2">
+                {collaborators.map((collaborator) => (
+                  <label
+                    key={collaborator.userId}
+                    className="flex items-center space-x-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={form.participantIds.includes(
+                        collaborator.userId
+                      )}
+                      onCheckedChange={(checked) =>
+                        toggleParticipant(collaborator.userId, checked === true)
+                      }
+                    />
+                    <span>{collaborator.username}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>Activity</Label>
+              <Select
+                value={form.activityKey}
+                onValueChange={(key) => setForm({ ...form, activityKey: key })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_ACTIVITY}>Not linked</SelectItem>
+                  {days.flatMap((day) =>
+                    day.activities.map((activity, index) => (
+                      <SelectItem
+                        key={`${day.day}-${index}`}
+                        value={activityKey(day.day, activity.activity)}
+                      >
+                        Day {day.day} · {activity.activity}
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            {expense && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="text-red-500 hover:text-white hover:bg-red-600 sm:mr-auto"
+                onClick={handleDelete}
+                disabled={isPending}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isPending}>
+              {saveMutation.isPending
+                ? "Saving..."
+                : expense
+                  ? "Save Expense"
+                  : "Add Expense"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExpenseFormDialog } from "@/components/expense-form-dialog";
+import { useCurrency } from "@/hooks/use-currency";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney } from "@shared/currency";
+import { ArrowRight, Receipt, Scale } from "lucide-react";
+import {
+  type Itinerary,
+  type ItineraryCollaborator,
+  type ItineraryExpense,
+} from "@shared/schema";
+import { type DayPlan } from "@shared/itinerary";
+import { summarizeExpenses } from "@shared/expenses";
+
+interface ExpensesPanelProps {
+  itinerary: Itinerary;
+  collaborators: ItineraryCollaborator[];
+  days: DayPlan[];
+  canEdit: boolean;
+}
+
+export function ExpensesPanel({
+  itinerary,
+  collaborators,
+  days,
+  canEdit,
+}: ExpensesPanelProps) {
+  const { currency: homeCurrency, rates, formatCost } = useCurrency();
+  const { data: expenses = [], isLoading } = useQuery<ItineraryExpense[]>({
+    queryKey: ["/api/itineraries", itinerary.id.toString(), "expenses"],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/itineraries/${itinerary.id}/expenses`
+      );
+      return await res.json();
+    },
+  });
+
+  // Balances are settled in the trip budget's currency when there is one
+  const currency =
+    itinerary.budgetCurrency ?? homeCurrency ?? expenses[0]?.currency ?? "USD";
+  const summary = summarizeExpenses(expenses, currency, rates);
+  const money = (amount: number) => formatMoney({ amount, currency });
+
+  const nameOf = (userId: number) =>
+    collaborators.find((c) => c.userId === userId)?.username ?? "Former member";
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardContent className="p-8">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold text-slate-800 flex items-center">
+              <Receipt className="h-5 w-5 text-primary mr-2" />
+              Expenses
+            </h3>
+            {canEdit && (
+              <ExpenseFormDialog
+                itineraryId={itinerary.id}
+                collaborators={collaborators}
+                days={days}
+                defaultCurrency={currency}
+              />
+            )}
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : expenses.length === 0 ? (
+            <p className="text-slate-500">
+              No expenses yet. Add what each person paid to see who owes whom.
+            </p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {expenses.map((expense) => (
+                <div
+                  key={expense.id}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div>
+                    <p className="font-medium text-slate-800">
+                      {expense.description}
+                    </p>
+                    <p className="text-sm text-slate-500">
+                      Paid by {nameOf(expense.paidBy)} · split{" "}
+                      {expense.participantIds.length} way
+                      {expense.participantIds.length === 1 ? "" : "s"}
+                    </p>
+                    {expense.day && expense.activity && (
+                      <Badge variant="outline" className="text-xs mt-1">
+                        Day {expense.day} · {expense.activity}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className="font-semibold text-slate-800">
+                      {formatCost(expense)}
+                    </span>
+                    {canEdit && (
+                      <ExpenseFormDialog
+                        itineraryId={itinerary.id}
+                        collaborators={collaborators}
+                        days={days}
+                        defaultCurrency={currency}
+                        expense={expense}
+                      />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {expenses.length > 0 && (
+        <Card className="shadow-lg">
+          <CardContent className="p-8">
+            <h3 className="text-xl font-bold text-slate-800 flex items-center mb-6">
+              <Scale className="h-5 w-5 text-primary mr-2" />
+              Balances
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              <div className="space-y-2">
+                {summary.balances.map((balance) => (
+                  <div
+                    key={balance.userId}
+                    className="flex justify-between text-sm"
+                  >
+                    <span className="text-slate-700">
+                      {nameOf(balance.userId)}
+                    </span>
+                    <span
+                      className={
+                        balance.amount > 0
+                          ? "text-green-600 font-medium"
+                          : balance.amount < 0
+                            ? "text-red-600 font-medium"
+                            : "text-slate-500"
+                      }
+                    >
+                      {balance.amount > 0
+                        ? `is owed ${money(balance.amount)}`
+                        : balance.amount < 0
+                          ? `owes ${money(-balance.amount)}`
+                          : "settled"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <h4 className="font-semibold text-slate-800 mb-2">Settle up</h4>
+                {summary.transfers.length === 0 ? (
+                  <p className="text-sm text-slate-500">Everyone is even.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {summary.transfers.map((transfer) => (
+                      <li
+                        key={`${transfer.from}-${transfer.to}`}
+                        className="flex items-center text-sm text-slate-700"
+                      >
+                        {nameOf(transfer.from)}
+                        <ArrowRight className="h-3 w-3 mx-2 text-slate-400" />
+                        {nameOf(transfer.to)}
+                        <span className="ml-auto font-medium">
+                          {money(transfer.amount)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+            {summary.excluded > 0 && (
+              <p className="text-sm text-slate-500 mt-4">
+                {summary.excluded} expense
+                {summary.excluded === 1 ? " has" : "s have"} no exchange rate to{" "}
+                {currency} and {summary.excluded === 1 ? "is" : "are"} left out
+                of the balances.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
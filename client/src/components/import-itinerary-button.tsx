@@ -0,0 +1,72 @@
+import { useRef } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Upload } from "lucide-react";
+import { type Itinerary } from "@shared/schema";
+
+// Uploads a file saved with "Export > Trip data (.json)" as a new trip
+export function ImportItineraryButton() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let document: unknown;
+      try {
+        document = JSON.parse(await file.text());
+      } catch {
+        throw new Error("The file is not valid JSON.");
+      }
+      const res = await apiRequest("POST", "/api/itineraries/import", document);
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (itinerary) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      toast({
+        title: "Trip imported",
+        description: `"${itinerary.title}" has been added to your trips.`,
+      });
+      setLocation(`/itinerary/${itinerary.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still triggers a change
+    e.target.value = "";
+    if (file) importMutation.mutate(file);
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+      <Button
+        size="lg"
+        variant="outline"
+        onClick={() => inputRef.current?.click()}
+        disabled={importMutation.isPending}
+      >
+        <Upload className="h-5 w-5 mr-2" />
+        {importMutation.isPending ? "Importing..." : "Import Trip"}
+      </Button>
+    </>
+  );
+}
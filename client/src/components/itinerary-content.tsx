@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { type Itinerary } from "@shared/schema";
+import {
+  type Activity,
+  type DayPlan,
+  type GeneratedItinerary,
+  type Money,
+  type Recommendations,
+} from "@shared/itinerary";
+import { type ActivityPosition } from "@shared/activity-edits";
+import {
+  type ScheduleWarning,
+  type ScheduleWarningKind,
+} from "@shared/schedule-check";
+import { formatMoney } from "@shared/currency";
+import { formatActivityTime } from "@shared/activity-time";
+import {
+  Calendar,
+  Plane,
+  Bed,
+  Heart,
+  MapPin,
+  MapPinOff,
+  Sun,
+  Sunset,
+  Moon,
+  Lightbulb,
+  GripVertical,
+  AlertTriangle,
+  Pin,
+} from "lucide-react";
+
+// Read-only building blocks for rendering generated itinerary content, shared
+// by the owner's itinerary view and public share pages
+
+export const periodIcons = {
+  morning: Sun,
+  afternoon: Sunset,
+  evening: Moon,
+};
+
+export const periodColors = {
+  morning: "bg-yellow-100 text-yellow-600",
+  afternoon: "bg-orange-100 text-orange-600",
+  evening: "bg-purple-100 text-purple-600",
+};
+
+const scheduleWarningLabels: Record<ScheduleWarningKind, string> = {
+  overlap: "Overlaps",
+  transfer: "Tight transfer",
+  "long-day": "Long day",
+};
+
+function ScheduleWarningBadge({ warning }: { warning: ScheduleWarning }) {
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs text-amber-700 border-amber-300 bg-amber-50"
+      title={warning.message}
+    >
+      <AlertTriangle className="h-3 w-3 mr-1" />
+      {scheduleWarningLabels[warning.kind]}
+    </Badge>
+  );
+}
+
+const ACTIVITY_DRAG_TYPE = "application/x-itinerary-activity";
+
+// Activities can be dragged within a day and onto other days when
+// onMoveActivity is given; otherwise the card is read-only
+export function DayCard({
+  day,
+  actions,
+  activityActions,
+  onMoveActivity,
+  footer,
+  formatCost = formatMoney,
+  warnings = [],
+}: {
+  day: DayPlan;
+  actions?: React.ReactNode;
+  activityActions?: (activity: Activity, index: number) => React.ReactNode;
+  onMoveActivity?: (from: ActivityPosition, to: ActivityPosition) => void;
+  footer?: React.ReactNode;
+  formatCost?: (money: Money) => string;
+  // Schedule problems found in this day
+  warnings?: ScheduleWarning[];
+}) {
+  // Index of the activity the dragged one would be dropped in front of
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDragOver = (e: React.DragEvent, index: number) => {
+    if (!onMoveActivity || !e.dataTransfer.types.includes(ACTIVITY_DRAG_TYPE)) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+    setDropIndex(index);
+  };
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    setDropIndex(null);
+    const data = e.dataTransfer.getData(ACTIVITY_DRAG_TYPE);
+    if (!onMoveActivity || !data) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const from = JSON.parse(data) as ActivityPosition;
+    // Targets are counted after the activity leaves its old slot
+    const to = {
+      day: day.day,
+      index: from.day === day.day && from.index < index ? index - 1 : index,
+    };
+    if (from.day !== to.day || from.index !== to.index) {
+      onMoveActivity(from, to);
+    }
+  };
+
+  return (
+    <Card className="shadow-lg overflow-hidden">
+      <div className="travel-gradient text-white p-6">
+        <div className="flex items-center justify-between">
+          <h3 className="text-xl font-bold">
+            Day {day.day} - {day.title}
+          </h3>
+          <div className="flex items-center space-x-3">
+            <span className="text-white/80">
+              {new Date(day.date).toLocaleDateString()}
+            </span>
+            {actions}
+          </div>
+        </div>
+      </div>
+
+      <CardContent
+        className="p-6"
+        onDragOver={(e) => handleDragOver(e, day.activities.length)}
+        onDragLeave={() => setDropIndex(null)}
+        onDrop={(e) => handleDrop(e, day.activities.length)}
+      >
+        {warnings.some((warning) => warning.activityIndex === undefined) && (
+          <div className="flex flex-wrap items-center gap-2 mb-6 text-sm text-amber-700">
+            {warnings
+              .filter((warning) => warning.activityIndex === undefined)
+              .map((warning, index) => (
+                <span key={index} className="flex items-center space-x-2">
+                  <ScheduleWarningBadge warning={warning} />
+                  <span>{warning.message}</span>
+                </span>
+              ))}
+          </div>
+        )}
+        <div className="space-y-6">
+          {day.activities.map((activity, activityIndex) => {
+            const PeriodIcon =
+              periodIcons[activity.period as keyof typeof periodIcons] || Sun;
+            const periodColor =
+              periodColors[activity.period as keyof typeof periodColors] ||
+              "bg-gray-100 text-gray-600";
+
+            return (
+              <div
+                key={activityIndex}
+                className={`flex items-start space-x-4 ${
+                  dropIndex === activityIndex
+                    ? "border-t-2 border-primary pt-4"
+                    : ""
+                }`}
+                draggable={!!onMoveActivity}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(
+                    ACTIVITY_DRAG_TYPE,
+                    JSON.stringify({ day: day.day, index: activityIndex })
+                  );
+                  e.dataTransfer.effectAllowed = "move";
+                }}
+                onDragOver={(e) => handleDragOver(e, activityIndex)}
+                onDrop={(e) => handleDrop(e, activityIndex)}
+              >
+                {onMoveActivity && (
+                  <GripVertical className="h-5 w-5 mt-3 -mr-2 flex-shrink-0 text-slate-300 cursor-grab" />
+                )}
+                <div
+                  className={`flex-shrink-0 w-12 h-12 rounded-full flex items-center justify-center ${periodColor}`}
+                >
+                  <PeriodIcon className="h-5 w-5" />
+                </div>
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <h4 className="font-semibold text-slate-800 capitalize">
+                      {activity.period}
+                    </h4>
+                    <span className="text-sm text-slate-500 flex items-center">
+                      ({formatActivityTime(activity)})
+                      {activity.pinned && (
+                        <Pin
+                          className="h-3 w-3 ml-1"
+                          aria-label="Pinned to this time"
+                        />
+                      )}
+                    </span>
+                    {activity.duration && (
+                      <Badge variant="secondary" className="text-xs">
+                        {activity.duration}
+                      </Badge>
+                    )}
+                    {activity.estimatedCost ? (
+                      <Badge variant="outline" className="text-xs">
+                        {formatCost(activity.estimatedCost)}
+                      </Badge>
+                    ) : (
+                      activity.cost && (
+                        <Badge variant="outline" className="text-xs">
+                          {activity.cost}
+                        </Badge>
+                      )
+                    )}
+                    {activity.actualCost && (
+                      <Badge className="text-xs bg-green-100 text-green-700 hover:bg-green-100">
+                        Spent {formatCost(activity.actualCost)}
+                      </Badge>
+                    )}
+                    {warnings
+                      .filter(
+                        (warning) => warning.activityIndex === activityIndex
+                      )
+                      .map((warning, index) => (
+                        <ScheduleWarningBadge key={index} warning={warning} />
+                      ))}
+                  </div>
+                  <p className="text-slate-600 mb-2">{activity.activity}</p>
+                  <p className="text-sm text-slate-500 flex items-center">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {activity.location}
+                    {activity.locationUnresolved && (
+                      <Badge
+                        variant="outline"
+                        className="ml-2 text-xs text-amber-700 border-amber-300"
+                        title="This place couldn't be found on the map. Try a more specific location."
+                      >
+                        <MapPinOff className="h-3 w-3 mr-1" />
+                        Not on map
+                      </Badge>
+                    )}
+                  </p>
+                  {activity.notes && (
+                    <p className="text-sm text-slate-500 mt-1 italic">
+                      {activity.notes}
+                    </p>
+                  )}
+                </div>
+                {activityActions?.(activity, activityIndex)}
+              </div>
+            );
+          })}
+          {dropIndex === day.activities.length && (
+            <div className="border-t-2 border-primary" />
+          )}
+          {day.activities.length === 0 && (
+            <p className="text-sm text-slate-500">
+              No activities planned for this day.
+            </p>
+          )}
+        </div>
+        {footer && <div className="mt-6">{footer}</div>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TripOverviewCard({
+  itinerary,
+  generatedContent,
+}: {
+  itinerary: Pick<
+    Itinerary,
+    "location" | "transport" | "accommodation" | "tripType"
+  >;
+  generatedContent: GeneratedItinerary;
+}) {
+  return (
+    <Card className="shadow-lg mb-8">
+      <CardContent className="p-8">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2">
+            <h2 className="text-3xl font-bold text-slate-800 mb-4">
+              {generatedContent.title}
+            </h2>
+            <p className="text-slate-600 mb-6">
+              {generatedContent.description}
+            </p>
+
+            {/* Trip Details Grid */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <Calendar className="h-6 w-6 text-primary mx-auto mb-2" />
+                <div className="text-sm text-slate-500">Duration</div>
+                <div className="font-semibold text-slate-800">
+                  {generatedContent.duration}
+                </div>
+              </div>
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <Plane className="h-6 w-6 text-primary mx-auto mb-2" />
+                <div className="text-sm text-slate-500">Transport</div>
+                <div className="font-semibold text-slate-800 capitalize">
+                  {itinerary.transport}
+                </div>
+              </div>
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <Bed className="h-6 w-6 text-primary mx-auto mb-2" />
+                <div className="text-sm text-slate-500">Stay</div>
+                <div className="font-semibold text-slate-800 capitalize">
+                  {itinerary.accommodation}
+                </div>
+              </div>
+              <div className="text-center p-4 bg-slate-50 rounded-xl">
+                <Heart className="h-6 w-6 text-primary mx-auto mb-2" />
+                <div className="text-sm text-slate-500">Type</div>
+                <div className="font-semibold text-slate-800 capitalize">
+                  {itinerary.tripType}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="lg:col-span-1">
+            <div className="w-full h-64 bg-gradient-to-br from-primary/10 to-secondary/10 rounded-xl shadow-lg flex items-center justify-center">
+              <div className="text-center">
+                <MapPin className="h-16 w-16 text-primary mx-auto mb-4" />
+                <p className="text-lg font-semibold text-slate-700">
+                  {itinerary.location}
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function RecommendationsCard({
+  recommendations,
+}: {
+  recommendations: Recommendations;
+}) {
+  return (
+    <Card className="shadow-lg mt-8">
+      <CardContent className="p-8">
+        <h3 className="text-2xl font-bold text-slate-800 mb-6 flex items-center">
+          <Lightbulb className="h-6 w-6 text-accent mr-2" />
+          AI Recommendations
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="p-4 bg-slate-50 rounded-xl">
+            <h4 className="font-semibold text-slate-800 mb-2">
+              Best Photo Spots
+            </h4>
+            <ul className="text-sm text-slate-600 space-y-1">
+              {recommendations.bestPhotoSpots.map((spot, index) => (
+                <li key={index}>• {spot}</li>
+              ))}
+            </ul>
+          </div>
+          <div className="p-4 bg-slate-50 rounded-xl">
+            <h4 className="font-semibold text-slate-800 mb-2">Local Tips</h4>
+            <ul className="text-sm text-slate-600 space-y-1">
+              {recommendations.localTips.map((tip, index) => (
+                <li key={index}>• {tip}</li>
+              ))}
+            </ul>
+          </div>
+          <div className="p-4 bg-slate-50 rounded-xl">
+            <h4 className="font-semibold text-slate-800 mb-2">
+              Weather & Packing
+            </h4>
+            <ul className="text-sm text-slate-600 space-y-1">
+              {recommendations.weatherAndPacking.map((item, index) => (
+                <li key={index}>• {item}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+import { Badge } from "@/components/ui/badge";
+import { diffItineraries } from "@/lib/itinerary-diff";
+import { Minus, Plus } from "lucide-react";
+import { type GeneratedItinerary } from "@shared/itinerary";
+
+const statusStyles = {
+  added: "bg-green-100 text-green-700",
+  removed: "bg-red-100 text-red-700",
+  changed: "bg-blue-100 text-blue-700",
+  unchanged: "bg-slate-100 text-slate-500",
+};
+
+interface ItineraryDiffViewProps {
+  before: GeneratedItinerary | null;
+  after: GeneratedItinerary | null;
+  showUnchanged?: boolean;
+}
+
+export function ItineraryDiffView({
+  before,
+  after,
+  showUnchanged = false,
+}: ItineraryDiffViewProps) {
+  const diffs = diffItineraries(before, after).filter(
+    (diff) => showUnchanged || diff.status !== "unchanged"
+  );
+
+  if (diffs.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">No changes to the daily plans.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {diffs.map((diff) => (
+        <div key={diff.day} className="rounded-lg border border-slate-200 p-3">
+          <div className="flex items-center justify-between mb-1">
+            <h5 className="font-semibold text-slate-800 text-sm">
+              Day {diff.day} - {diff.title.after ?? diff.title.before}
+            </h5>
+            <Badge
+              className={`text-xs capitalize ${statusStyles[diff.status]}`}
+            >
+              {diff.status}
+            </Badge>
+          </div>
+          {diff.title.before &&
+            diff.title.after &&
+            diff.title.before !== diff.title.after && (
+              <p className="text-xs text-slate-500 mb-1">
+                Was "{diff.title.before}"
+              </p>
+            )}
+          <ul className="text-sm space-y-1">
+            {diff.removed.map((activity, index) => (
+              <li
+                key={`removed-${index}`}
+                className="flex items-start text-red-700"
+              >
+                <Minus className="h-3 w-3 mr-1 mt-1 flex-shrink-0" />
+                <span className="line-through">
+                  {activity.time} {activity.activity}
+                </span>
+              </li>
+            ))}
+            {diff.added.map((activity, index) => (
+              <li
+                key={`added-${index}`}
+                className="flex items-start text-green-700"
+              >
+                <Plus className="h-3 w-3 mr-1 mt-1 flex-shrink-0" />
+                <span>
+                  {activity.time} {activity.activity}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
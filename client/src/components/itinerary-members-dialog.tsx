@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { LogOut, UserPlus, Users, X } from "lucide-react";
+import { type ItineraryCollaborator, type ItineraryRole } from "@shared/schema";
+
+type MemberRole = Exclude<ItineraryRole, "owner">;
+
+interface ItineraryMembersDialogProps {
+  itineraryId: number;
+  members: ItineraryCollaborator[];
+  role: ItineraryRole;
+}
+
+export function ItineraryMembersDialog({
+  itineraryId,
+  members,
+  role,
+}: ItineraryMembersDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [username, setUsername] = useState("");
+  const [inviteRole, setInviteRole] = useState<MemberRole>("editor");
+  const [, setLocation] = useLocation();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const membersKey = ["/api/itineraries", itineraryId.toString(), "members"];
+  const isOwner = role === "owner";
+
+  const inviteMutation = useMutation({
+    mutationFn: async (data: { username: string; role: MemberRole }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itineraryId}/members`,
+        data
+      );
+      return (await res.json()) as ItineraryCollaborator;
+    },
+    onSuccess: (member) => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+      setUsername("");
+      toast({
+        title: "Collaborator added",
+        description: `${member.username} can now ${
+          member.role === "editor" ? "edit" : "view"
+        } this trip.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Invite failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changeRoleMutation = useMutation({
+    mutationFn: async (data: { userId: number; role: MemberRole }) => {
+      await apiRequest(
+        "PATCH",
+        `/api/itineraries/${itineraryId}/members/${data.userId}`,
+        { role: data.role }
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't change role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest(
+        "DELETE",
+        `/api/itineraries/${itineraryId}/members/${userId}`
+      );
+      return userId;
+    },
+    onSuccess: (userId) => {
+      if (userId === user?.id) {
+        // Leaving the trip removes access to this page
+        queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+        setLocation("/");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: membersKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't remove collaborator",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    inviteMutation.mutate({ username: username.trim(), role: inviteRole });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Users className="h-4 w-4 mr-2" />
+          {members.length > 1 ? members.length : "Invite"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trip Collaborators</DialogTitle>
+          <DialogDescription>
+            Editors can change the plan with you; viewers can only read it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="space-y-2">
+            <Label htmlFor="invite-username">Invite by username</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="invite-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="username"
+              />
+              <Select
+                value={inviteRole}
+                onValueChange={(value) => setInviteRole(value as MemberRole)}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="editor">Editor</SelectItem>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                type="submit"
+                disabled={!username.trim() || inviteMutation.isPending}
+              >
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="space-y-2">
+          {members.map((member) => (
+            <div
+              key={member.userId}
+              className="flex items-center justify-between rounded-lg border border-slate-200 p-3"
+            >
+              <span className="font-medium text-slate-800">
+                {member.username}
+                {member.userId === user?.id && (
+                  <span className="text-slate-500 font-normal"> (you)</span>
+                )}
+              </span>
+              {member.role === "owner" ? (
+                <Badge variant="outline">Owner</Badge>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  {isOwner ? (
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) =>
+                        changeRoleMutation.mutate({
+                          userId: member.userId,
+                          role: value as MemberRole,
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-28 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor">Editor</SelectItem>
+                        <SelectItem value="viewer">Viewer</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <Badge variant="outline" className="capitalize">
+                      {member.role}
+                    </Badge>
+                  )}
+                  {(isOwner || member.userId === user?.id) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeMutation.mutate(member.userId)}
+                      disabled={removeMutation.isPending}
+                    >
+                      {member.userId === user?.id ? (
+                        <LogOut className="h-4 w-4" />
+                      ) : (
+                        <X className="h-4 w-4" />
+                      )}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
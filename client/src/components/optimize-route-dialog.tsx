@@ -0,0 +1,166 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ArrowRight, Pin, Route } from "lucide-react";
+import { type Itinerary } from "@shared/schema";
+import { type DayPlan } from "@shared/itinerary";
+import { optimizeDayRoute } from "@shared/route-optimizer";
+import { formatActivityTime } from "@shared/activity-time";
+
+interface OptimizeRouteDialogProps {
+  itineraryId: number;
+  day: DayPlan;
+  transport: string;
+  // Sent with the request so the server doesn't apply an order the user
+  // didn't see
+  updatedAt: Date;
+}
+
+const formatKm = (km: number) => `${km.toFixed(km < 10 ? 1 : 0)} km`;
+
+// Previews the reordered day with the same optimizer the server applies
+export function OptimizeRouteDialog({
+  itineraryId,
+  day,
+  transport,
+  updatedAt,
+}: OptimizeRouteDialogProps) {
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const located = day.activities.filter((activity) => activity.coordinates);
+  // Trying every order is expensive, so only redo it when the day changes
+  const preview = useMemo(
+    () => (open ? optimizeDayRoute(day, transport) : null),
+    [open, day, transport]
+  );
+  const changed = !!preview && preview.activities !== day.activities;
+
+  const optimizeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itineraryId}/days/${day.day}/optimize-route`,
+        { expectedUpdatedAt: updatedAt }
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (itinerary) => {
+      queryClient.setQueryData(
+        ["/api/itineraries", itineraryId.toString()],
+        itinerary
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      toast({
+        title: `Day ${day.day} reordered`,
+        description: "Activity times were updated to match the new order.",
+      });
+      setOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't optimize route",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white hover:text-primary hover:bg-white"
+          disabled={located.length < 3}
+          title={
+            located.length < 3
+              ? "Needs at least three activities on the map"
+              : undefined
+          }
+        >
+          <Route className="h-4 w-4 mr-2" />
+          Optimize route
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Optimize Day {day.day} Route</DialogTitle>
+          <DialogDescription>
+            Reorders activities to travel less between them. Pinned activities,
+            and ones without a map location or clock time, keep their place.
+          </DialogDescription>
+        </DialogHeader>
+        {preview && (
+          <div className="grid gap-4 py-2">
+            <div className="flex items-center justify-center space-x-4 rounded-lg bg-slate-50 p-4">
+              <div className="text-center">
+                <div className="text-xs text-slate-500">Now</div>
+                <div className="text-lg font-semibold text-slate-800">
+                  {formatKm(preview.beforeKm)}
+                </div>
+              </div>
+              <ArrowRight className="h-5 w-5 text-slate-400" />
+              <div className="text-center">
+                <div className="text-xs text-slate-500">Optimized</div>
+                <div className="text-lg font-semibold text-primary">
+                  {formatKm(preview.afterKm)}
+                </div>
+              </div>
+            </div>
+            {changed ? (
+              <ol className="space-y-2 text-sm">
+                {preview.activities.map((activity, index) => (
+                  <li key={index} className="flex items-start space-x-3">
+                    <span className="w-36 flex-shrink-0 text-slate-500">
+                      {formatActivityTime(activity)}
+                    </span>
+                    <span className="flex-1 text-slate-800">
+                      {activity.activity}
+                    </span>
+                    {activity.pinned && (
+                      <Pin className="h-4 w-4 flex-shrink-0 text-slate-400" />
+                    )}
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <p className="text-sm text-slate-500 text-center">
+                This day is already in the shortest order.
+              </p>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => setOpen(false)}
+            disabled={optimizeMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => optimizeMutation.mutate()}
+            disabled={!changed || optimizeMutation.isPending}
+          >
+            {optimizeMutation.isPending ? "Applying..." : "Apply New Order"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Download } from "lucide-react";
+import { type DayPlan } from "@shared/itinerary";
+import {
+  pdfExportQuery,
+  pdfSections,
+  type PdfSection,
+  type PdfTemplate,
+} from "@shared/pdf-export";
+
+const templateOptions: {
+  value: PdfTemplate;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "booklet",
+    label: "Booklet",
+    description: "Cover, contents and a page for each day",
+  },
+  {
+    value: "compact",
+    label: "Compact",
+    description: "Two columns of small type, ideally on one page",
+  },
+  {
+    value: "print",
+    label: "Print-friendly",
+    description: "Black and white, without colour fills",
+  },
+];
+
+const sectionLabels: Record<PdfSection, string> = {
+  overview: "Trip overview",
+  schedule: "Daily schedule",
+  costs: "Costs",
+  notes: "Activity notes",
+  recommendations: "Recommendations",
+};
+
+interface PdfExportDialogProps {
+  itineraryId: number;
+  days: DayPlan[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PdfExportDialog({
+  itineraryId,
+  days,
+  open,
+  onOpenChange,
+}: PdfExportDialogProps) {
+  const [template, setTemplate] = useState<PdfTemplate>("booklet");
+  const [sections, setSections] = useState<PdfSection[]>([...pdfSections]);
+  const [selectedDays, setSelectedDays] = useState<number[]>(
+    days.map((day) => day.day)
+  );
+
+  const allDays = selectedDays.length === days.length;
+  const toggle = <T,>(list: T[], value: T, checked: boolean) =>
+    checked ? [...list, value] : list.filter((item) => item !== value);
+
+  // Days may have been added or removed since the dialog was last open
+  useEffect(() => {
+    if (open) setSelectedDays(days.map((day) => day.day));
+  }, [open]);
+
+  const handleDownload = () => {
+    const query = pdfExportQuery({
+      template,
+      sections,
+      // Leaving days out keeps the link valid for days added later
+      days: allDays ? undefined : selectedDays,
+    });
+    window.location.assign(
+      `/api/itineraries/${itineraryId}/export.pdf?${query}`
+    );
+    onOpenChange(false);
+  };
+
+  const showsDays = sections.includes("schedule");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Export PDF</DialogTitle>
+          <DialogDescription>
+            Choose a layout and what to include.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 py-2">
+          <div className="grid gap-2">
+            <Label>Template</Label>
+            <RadioGroup
+              value={template}
+              onValueChange={(value) => setTemplate(value as PdfTemplate)}
+            >
+              {templateOptions.map((option) => (
+                <label
+                  key={option.value}
+                  className="flex items-start space-x-3 text-sm"
+                >
+                  <RadioGroupItem value={option.value} className="mt-0.5" />
+                  <span>
+                    <span className="font-medium">{option.label}</span>
+                    <span className="block text-slate-500">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </RadioGroup>
+          </div>
+          <div className="grid gap-2">
+            <Label>Sections</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {pdfSections.map((section) => (
+                <label
+                  key={section}
+                  className="flex items-center space-x-2 text-sm"
+                >
+                  <Checkbox
+                    checked={sections.includes(section)}
+                    onCheckedChange={(checked) =>
+                      setSections(toggle(sections, section, checked === true))
+                    }
+                  />
+                  <span>{sectionLabels[section]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {showsDays && (
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between">
+                <Label>Days</Label>
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() =>
+                    setSelectedDays(allDays ? [] : days.map((day) => day.day))
+                  }
+                >
+                  {allDays ? "Select none" : "Select all"}
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                {days.map((day) => (
+                  <label
+                    key={day.day}
+                    className="flex items-center space-x-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={selectedDays.includes(day.day)}
+                      onCheckedChange={(checked) =>
+                        setSelectedDays(
+                          toggle(selectedDays, day.day, checked === true)
+                        )
+                      }
+                    />
+                    <span className="truncate">
+                      Day {day.day} · {day.title}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleDownload}
+            disabled={
+              sections.length === 0 || (showsDays && selectedDays.length === 0)
+            }
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
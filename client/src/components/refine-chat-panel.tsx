@@ -0,0 +1,223 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Textarea } from "@/components/ui/textarea";
+import { ItineraryDiffView } from "@/components/itinerary-diff-view";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Check, Loader2, MessageSquare, Send, X } from "lucide-react";
+import { type Itinerary, type ItineraryMessage } from "@shared/schema";
+import { type GeneratedItinerary } from "@shared/itinerary";
+
+interface RefineChatPanelProps {
+  itinerary: Itinerary;
+  generatedContent: GeneratedItinerary;
+}
+
+export function RefineChatPanel({
+  itinerary,
+  generatedContent,
+}: RefineChatPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const messagesKey = ["/api/itineraries", itinerary.id.toString(), "messages"];
+
+  const { data: messages = [] } = useQuery<ItineraryMessage[]>({
+    queryKey: messagesKey,
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/itineraries/${itinerary.id}/messages`
+      );
+      return await res.json();
+    },
+    enabled: open,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async (content: string) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itinerary.id}/messages`,
+        { content }
+      );
+      return (await res.json()) as ItineraryMessage[];
+    },
+    onSuccess: () => {
+      setDraft("");
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    },
+    onError: (error: Error) => {
+      // The user message may have been saved even if the AI reply failed
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+      toast({
+        title: "Message failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: async ({
+      messageId,
+      decision,
+    }: {
+      messageId: number;
+      decision: "accept" | "dismiss";
+    }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itinerary.id}/messages/${messageId}/${decision}`
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (updatedItinerary, { decision }) => {
+      queryClient.setQueryData(
+        ["/api/itineraries", itinerary.id.toString()],
+        updatedItinerary
+      );
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      if (decision === "accept") {
+        toast({
+          title: "Changes applied",
+          description: "Your itinerary has been updated.",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update proposal",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages.length, sendMutation.isPending]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || sendMutation.isPending) return;
+    sendMutation.mutate(draft.trim());
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <MessageSquare className="h-4 w-4 mr-2" />
+          Refine
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Refine with AI</SheetTitle>
+          <SheetDescription>
+            Ask for changes like "make day 2 less museum-heavy" and review them
+            before they are applied.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-4 py-4">
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className={
+                message.role === "user"
+                  ? "ml-8 rounded-xl bg-primary text-white p-3"
+                  : "mr-8 rounded-xl bg-slate-100 text-slate-800 p-3"
+              }
+            >
+              <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+              {message.proposedContent &&
+                message.proposalStatus !== "pending" && (
+                  <p className="mt-2 text-xs text-slate-500 capitalize">
+                    Proposal {message.proposalStatus}
+                  </p>
+                )}
+              {message.proposedContent &&
+                message.proposalStatus === "pending" && (
+                  <div className="mt-3 rounded-lg bg-white p-3 space-y-3">
+                    <ItineraryDiffView
+                      before={generatedContent}
+                      after={message.proposedContent}
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() =>
+                          decisionMutation.mutate({
+                            messageId: message.id,
+                            decision: "dismiss",
+                          })
+                        }
+                        disabled={decisionMutation.isPending}
+                      >
+                        <X className="h-4 w-4 mr-1" />
+                        Dismiss
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          decisionMutation.mutate({
+                            messageId: message.id,
+                            decision: "accept",
+                          })
+                        }
+                        disabled={decisionMutation.isPending}
+                      >
+                        <Check className="h-4 w-4 mr-1" />
+                        Apply Changes
+                      </Button>
+                    </div>
+                  </div>
+                )}
+            </div>
+          ))}
+          {sendMutation.isPending && (
+            <div className="mr-8 rounded-xl bg-slate-100 p-3 flex items-center text-sm text-slate-500">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Thinking...
+            </div>
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex items-end space-x-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) handleSubmit(e);
+            }}
+            placeholder="We arrive at 3pm on day 1..."
+            maxLength={2000}
+            rows={2}
+          />
+          <Button
+            type="submit"
+            disabled={!draft.trim() || sendMutation.isPending}
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RefreshCw } from "lucide-react";
+import { type Itinerary } from "@shared/schema";
+import { type DayPlan } from "@shared/itinerary";
+
+interface RegenerateDayDialogProps {
+  itineraryId: number;
+  day: DayPlan;
+}
+
+export function RegenerateDayDialog({
+  itineraryId,
+  day,
+}: RegenerateDayDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [instructions, setInstructions] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const regenerateDayMutation = useMutation({
+    mutationFn: async (data: { instructions?: string }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itineraryId}/days/${day.day}/regenerate`,
+        data
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (itinerary) => {
+      queryClient.setQueryData(
+        ["/api/itineraries", itineraryId.toString()],
+        itinerary
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      toast({
+        title: `Day ${day.day} regenerated`,
+        description: "The rest of your itinerary was left unchanged.",
+      });
+      setOpen(false);
+      setInstructions("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Regeneration failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    regenerateDayMutation.mutate({
+      instructions: instructions.trim() || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-white hover:text-primary hover:bg-white"
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Regenerate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Regenerate Day {day.day}</DialogTitle>
+            <DialogDescription>
+              The AI will plan this day again and keep the rest of your trip as
+              it is.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="instructions">Instructions (optional)</Label>
+            <Textarea
+              id="instructions"
+              value={instructions}
+              onChange={(e) => setInstructions(e.target.value)}
+              placeholder="e.g. More outdoor activities, and a late start"
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setOpen(false)}
+              disabled={regenerateDayMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={regenerateDayMutation.isPending}>
+              {regenerateDayMutation.isPending
+                ? "Regenerating..."
+                : "Regenerate Day"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
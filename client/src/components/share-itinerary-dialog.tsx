@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, Link, Share2, Trash2 } from "lucide-react";
+import { type ItineraryShare } from "@shared/schema";
+
+const expiryOptions = [
+  { value: "never", label: "Never expires" },
+  { value: "1", label: "Expires in 1 day" },
+  { value: "7", label: "Expires in 7 days" },
+  { value: "30", label: "Expires in 30 days" },
+];
+
+const shareUrl = (share: ItineraryShare) =>
+  `${window.location.origin}/s/${share.token}`;
+
+interface ShareItineraryDialogProps {
+  itineraryId: number;
+}
+
+export function ShareItineraryDialog({
+  itineraryId,
+}: ShareItineraryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [expiry, setExpiry] = useState("never");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const sharesKey = ["/api/itineraries", itineraryId.toString(), "shares"];
+
+  const { data: shares = [] } = useQuery<ItineraryShare[]>({
+    queryKey: sharesKey,
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/itineraries/${itineraryId}/shares`
+      );
+      return await res.json();
+    },
+    enabled: open,
+  });
+
+  const createShareMutation = useMutation({
+    mutationFn: async (expiresInDays?: number) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itineraryId}/shares`,
+        { expiresInDays }
+      );
+      return (await res.json()) as ItineraryShare;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      copyLink(share);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't create link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeShareMutation = useMutation({
+    mutationFn: async (shareId: number) => {
+      await apiRequest(
+        "DELETE",
+        `/api/itineraries/${itineraryId}/shares/${shareId}`
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: sharesKey });
+      toast({
+        title: "Link revoked",
+        description: "Anyone with this link can no longer view the trip.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't revoke link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async (share: ItineraryShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+      toast({
+        title: "Link copied",
+        description: "Share it with anyone to give them read-only access.",
+      });
+    } catch {
+      // Clipboard access can be blocked; the link is still shown in the list
+    }
+  };
+
+  const handleCreate = () => {
+    createShareMutation.mutate(
+      expiry === "never" ? undefined : parseInt(expiry)
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Share2 className="h-4 w-4 mr-2" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Itinerary</DialogTitle>
+          <DialogDescription>
+            Anyone with a link can view this trip without signing in. Revoke a
+            link at any time to stop sharing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>New link</Label>
+          <div className="flex space-x-2">
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={handleCreate}
+              disabled={createShareMutation.isPending}
+            >
+              <Link className="h-4 w-4 mr-2" />
+              {createShareMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </div>
+        </div>
+
+        {shares.length > 0 && (
+          <div className="space-y-3">
+            <Label>Active links</Label>
+            {shares.map((share) => {
+              const expired =
+                !!share.expiresAt && new Date(share.expiresAt) < new Date();
+              return (
+                <div key={share.id} className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Input value={shareUrl(share)} readOnly />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => copyLink(share)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeShareMutation.mutate(share.id)}
+                      disabled={revokeShareMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {share.expiresAt
+                      ? `${expired ? "Expired" : "Expires"} ${new Date(
+                          share.expiresAt
+                        ).toLocaleString()}`
+                      : "Never expires"}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
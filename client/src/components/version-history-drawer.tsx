@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ItineraryDiffView } from "@/components/itinerary-diff-view";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { History, RotateCcw } from "lucide-react";
+import {
+  type Itinerary,
+  type ItineraryVersionWithAuthor,
+} from "@shared/schema";
+
+const reasonColors = {
+  generate: "bg-blue-100 text-blue-700",
+  edit: "bg-slate-100 text-slate-700",
+  refine: "bg-purple-100 text-purple-700",
+  restore: "bg-orange-100 text-orange-700",
+  import: "bg-green-100 text-green-700",
+};
+
+const versionLabel = (version: ItineraryVersionWithAuthor, number: number) =>
+  `v${number} · ${new Date(version.createdAt).toLocaleString()}`;
+
+interface VersionHistoryDrawerProps {
+  itinerary: Itinerary;
+  canRestore: boolean;
+}
+
+export function VersionHistoryDrawer({
+  itinerary,
+  canRestore,
+}: VersionHistoryDrawerProps) {
+  const [open, setOpen] = useState(false);
+  const [fromId, setFromId] = useState<string>();
+  const [toId, setToId] = useState<string>();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const versionsKey = ["/api/itineraries", itinerary.id.toString(), "versions"];
+
+  const { data: versions = [], isLoading } = useQuery<
+    ItineraryVersionWithAuthor[]
+  >({
+    queryKey: versionsKey,
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/itineraries/${itinerary.id}/versions`
+      );
+      return await res.json();
+    },
+    enabled: open,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${itinerary.id}/versions/${versionId}/restore`
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onSuccess: (updatedItinerary) => {
+      queryClient.setQueryData(
+        ["/api/itineraries", itinerary.id.toString()],
+        updatedItinerary
+      );
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      setFromId(undefined);
+      setToId(undefined);
+      toast({
+        title: "Version restored",
+        description: "Your itinerary has been rolled back.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Versions come newest first; number them oldest = v1
+  const numberOf = (version: ItineraryVersionWithAuthor) =>
+    versions.length - versions.indexOf(version);
+  const to = versions.find((v) => v.id.toString() === toId) ?? versions[0];
+  const from = versions.find((v) => v.id.toString() === fromId) ?? versions[1];
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <History className="h-4 w-4 mr-2" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Version History</SheetTitle>
+          <SheetDescription>
+            Every change to this trip is saved. Compare any two versions
+            {canRestore && " or restore an earlier one"}.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="space-y-3 py-4">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-4 text-sm text-slate-500">
+            No versions have been saved yet.
+          </p>
+        ) : (
+          <div className="space-y-6 py-4">
+            {versions.length > 1 && from && to && (
+              <div className="space-y-3">
+                <h4 className="font-semibold text-slate-800">Compare</h4>
+                <div className="grid grid-cols-2 gap-2">
+                  <Select value={from.id.toString()} onValueChange={setFromId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem
+                          key={version.id}
+                          value={version.id.toString()}
+                        >
+                          {versionLabel(version, numberOf(version))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={to.id.toString()} onValueChange={setToId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {versions.map((version) => (
+                        <SelectItem
+                          key={version.id}
+                          value={version.id.toString()}
+                        >
+                          {versionLabel(version, numberOf(version))}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {from.title !== to.title && (
+                  <p className="text-sm text-slate-600">
+                    Title changed from "{from.title}" to "{to.title}"
+                  </p>
+                )}
+                <ItineraryDiffView
+                  before={from.generatedContent}
+                  after={to.generatedContent}
+                />
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h4 className="font-semibold text-slate-800">Versions</h4>
+              {versions.map((version, index) => (
+                <div
+                  key={version.id}
+                  className="flex items-center justify-between rounded-lg border border-slate-200 p-3"
+                >
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-slate-800">
+                        v{numberOf(version)}
+                      </span>
+                      <Badge
+                        className={`text-xs capitalize ${
+                          reasonColors[
+                            version.reason as keyof typeof reasonColors
+                          ] ?? reasonColors.edit
+                        }`}
+                      >
+                        {version.reason}
+                      </Badge>
+                      {index === 0 && (
+                        <Badge variant="outline" className="text-xs">
+                          Current
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-slate-500 mt-1">
+                      {new Date(version.createdAt).toLocaleString()}
+                      {version.authorName && ` by ${version.authorName}`}
+                    </p>
+                  </div>
+                  {canRestore && index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(version.id)}
+                      disabled={restoreMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
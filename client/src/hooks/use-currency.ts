@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { formatMoneyIn } from "@shared/currency";
+import { type ExchangeRate } from "@shared/schema";
+import { type Money } from "@shared/itinerary";
+
+// The signed-in user's home currency and a formatter that shows costs in both
+// their original currency and the home one
+export function useCurrency() {
+  const { user } = useAuth();
+  const { data: rates = [] } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+    enabled: !!user,
+  });
+
+  const currency = user?.currency ?? null;
+  const formatCost = (money: Money) => formatMoneyIn(money, currency, rates);
+
+  return { currency, rates, formatCost };
+}
@@ -0,0 +1,92 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { type ClientMessage, type ServerMessage } from "@shared/realtime";
+
+const RECONNECT_DELAY_MS = 3000;
+
+function applyEvent(queryClient: QueryClient, message: ServerMessage) {
+  if (message.type === "error") {
+    console.error("Realtime error:", message.message);
+    return;
+  }
+
+  const key = ["/api/itineraries", message.itineraryId.toString()];
+  switch (message.type) {
+    case "itinerary.updated":
+      queryClient.setQueryData(key, message.itinerary);
+      queryClient.invalidateQueries({ queryKey: [...key, "versions"] });
+      queryClient.invalidateQueries({
+        queryKey: ["/api/itineraries"],
+        exact: true,
+      });
+      break;
+    case "itinerary.deleted":
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      break;
+    case "generation-job.updated":
+      queryClient.setQueryData([...key, "generation-job"], message.job);
+      break;
+    case "messages.changed":
+      queryClient.invalidateQueries({ queryKey: [...key, "messages"] });
+      break;
+    case "members.changed":
+      queryClient.invalidateQueries({ queryKey: [...key, "members"] });
+      break;
+    case "expenses.changed":
+      queryClient.invalidateQueries({ queryKey: [...key, "expenses"] });
+      break;
+  }
+}
+
+// Keeps the query cache for one itinerary in sync with changes made by
+// other collaborators, reconnecting if the socket drops
+export function useItineraryEvents(itineraryId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!itineraryId) return;
+
+    let socket: WebSocket;
+    let reconnectTimer: ReturnType<typeof setTimeout>;
+    let reconnecting = false;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        const message: ClientMessage = {
+          type: "subscribe",
+          itineraryId: parseInt(itineraryId),
+        };
+        socket.send(JSON.stringify(message));
+
+        // Catch up on anything missed while disconnected
+        if (reconnecting) {
+          queryClient.invalidateQueries({
+            queryKey: ["/api/itineraries", itineraryId],
+          });
+        }
+      };
+
+      socket.onmessage = (event) => {
+        applyEvent(queryClient, JSON.parse(event.data) as ServerMessage);
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        reconnecting = true;
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket.close();
+    };
+  }, [itineraryId, queryClient]);
+}
@@ -0,0 +1,69 @@
+import { type Money, type GeneratedItinerary } from "@shared/itinerary";
+import { type ExchangeRate } from "@shared/schema";
+import { convertMoney } from "@shared/currency";
+
+export interface DayBudget {
+  day: number;
+  label: string;
+  planned: number;
+  actual: number;
+}
+
+export interface BudgetSummary {
+  currency: string;
+  days: DayBudget[];
+  planned: number;
+  actual: number;
+  // Costs in a currency with no exchange rate, left out of the totals
+  excluded: number;
+}
+
+// The budget's own currency when one is set, otherwise the currency of the
+// first estimate so an unbudgeted trip can still be totalled
+export function budgetCurrency(
+  content: GeneratedItinerary,
+  currency?: string | null
+) {
+  if (currency) return currency;
+  for (const day of content.days) {
+    for (const activity of day.activities) {
+      const cost = activity.estimatedCost ?? activity.actualCost;
+      if (cost) return cost.currency;
+    }
+  }
+  return null;
+}
+
+// Per-day planned and actual totals, converted into the budget currency
+export function summarizeBudget(
+  content: GeneratedItinerary,
+  currency: string,
+  rates: Pick<ExchangeRate, "currency" | "rate">[]
+): BudgetSummary {
+  let excluded = 0;
+  const sum = (costs: (Money | undefined)[]) =>
+    costs.reduce((total, cost) => {
+      if (!cost) return total;
+      const converted = convertMoney(cost, currency, rates);
+      if (!converted) {
+        excluded++;
+        return total;
+      }
+      return total + converted.amount;
+    }, 0);
+
+  const days = content.days.map((day) => ({
+    day: day.day,
+    label: `Day ${day.day}`,
+    planned: sum(day.activities.map((activity) => activity.estimatedCost)),
+    actual: sum(day.activities.map((activity) => activity.actualCost)),
+  }));
+
+  return {
+    currency,
+    days,
+    planned: days.reduce((total, day) => total + day.planned, 0),
+    actual: days.reduce((total, day) => total + day.actual, 0),
+    excluded,
+  };
+}
@@ -0,0 +1,96 @@
+import {
+  type Activity,
+  type DayPlan,
+  type GeneratedItinerary,
+} from "@shared/itinerary";
+
+export interface DayDiff {
+  day: number;
+  date: string;
+  status: "added" | "removed" | "changed" | "unchanged";
+  title: { before?: string; after?: string };
+  added: Activity[];
+  removed: Activity[];
+}
+
+const activityKey = (activity: Activity) =>
+  JSON.stringify([
+    activity.time,
+    activity.period,
+    activity.activity,
+    activity.location,
+    activity.duration,
+    activity.cost,
+    activity.estimatedCost,
+    activity.actualCost,
+    activity.notes,
+  ]);
+
+// Activities only present on one side, counting duplicates
+function subtractActivities(from: Activity[], other: Activity[]) {
+  const remaining = other.map(activityKey);
+  return from.filter((activity) => {
+    const index = remaining.indexOf(activityKey(activity));
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
+
+function diffDay(before?: DayPlan, after?: DayPlan): DayDiff {
+  const day = (after ?? before)!;
+  const added = subtractActivities(
+    after?.activities ?? [],
+    before?.activities ?? []
+  );
+  const removed = subtractActivities(
+    before?.activities ?? [],
+    after?.activities ?? []
+  );
+  const reordered =
+    !!before &&
+    !!after &&
+    before.activities.map(activityKey).join() !==
+      after.activities.map(activityKey).join();
+
+  let status: DayDiff["status"] = "unchanged";
+  if (!before) status = "added";
+  else if (!after) status = "removed";
+  else if (
+    added.length ||
+    removed.length ||
+    reordered ||
+    before.title !== after.title ||
+    before.date !== after.date
+  )
+    status = "changed";
+
+  return {
+    day: day.day,
+    date: day.date,
+    status,
+    title: { before: before?.title, after: after?.title },
+    added,
+    removed,
+  };
+}
+
+// Day-by-day comparison of two versions of an itinerary, matched on day number
+export function diffItineraries(
+  before: GeneratedItinerary | null,
+  after: GeneratedItinerary | null
+): DayDiff[] {
+  const dayNumbers = Array.from(
+    new Set([
+      ...(before?.days ?? []).map((d) => d.day),
+      ...(after?.days ?? []).map((d) => d.day),
+    ])
+  ).sort((a, b) => a - b);
+
+  return dayNumbers.map((dayNumber) =>
+    diffDay(
+      before?.days.find((d) => d.day === dayNumber),
+      after?.days.find((d) => d.day === dayNumber)
+    )
+  );
+}
@@ -0,0 +1,84 @@
+import { type Coordinates } from "@shared/itinerary";
+
+// Web Mercator maths for drawing XYZ raster tiles, the projection used by
+// OpenStreetMap and most tile servers
+
+export const TILE_SIZE = 256;
+
+// Zoom used when everything fits at any zoom, e.g. a single pin
+const MAX_FIT_ZOOM = 16;
+const MAX_LATITUDE = 85.0511;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface MapView {
+  center: Coordinates;
+  zoom: number;
+}
+
+// Pixel position in the whole world map at the given zoom
+export function project({ lat, lng }: Coordinates, zoom: number): Point {
+  const size = TILE_SIZE * 2 ** zoom;
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function unproject({ x, y }: Point, zoom: number): Coordinates {
+  const size = TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180,
+  };
+}
+
+// The closest view that shows every point with some padding around them
+export function fitView(
+  points: Coordinates[],
+  width: number,
+  height: number,
+  maxZoom: number,
+  padding = 48
+): MapView {
+  if (points.length === 0) return { center: { lat: 20, lng: 0 }, zoom: 2 };
+
+  let zoom = Math.min(maxZoom, MAX_FIT_ZOOM);
+  for (; zoom > 1; zoom--) {
+    const projected = points.map((point) => project(point, zoom));
+    const xs = projected.map((point) => point.x);
+    const ys = projected.map((point) => point.y);
+    if (
+      Math.max(...xs) - Math.min(...xs) <= width - 2 * padding &&
+      Math.max(...ys) - Math.min(...ys) <= height - 2 * padding
+    ) {
+      break;
+    }
+  }
+
+  const projected = points.map((point) => project(point, zoom));
+  const xs = projected.map((point) => point.x);
+  const ys = projected.map((point) => point.y);
+  return {
+    center: unproject(
+      {
+        x: (Math.min(...xs) + Math.max(...xs)) / 2,
+        y: (Math.min(...ys) + Math.max(...ys)) / 2,
+      },
+      zoom
+    ),
+    zoom,
+  };
+}
+
+export const tileUrl = (template: string, z: number, x: number, y: number) =>
+  template
+    .replace("{z}", z.toString())
+    .replace("{x}", x.toString())
+    .replace("{y}", y.toString());
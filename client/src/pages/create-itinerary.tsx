@@ -1,4 +1,3 @@
-import { useState } from "react";
 import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -74,7 +73,6 @@ const triggerConfetti = () => {
 
 export default function CreateItinerary() {
   const [, setLocation] = useLocation();
-  const [isGenerating, setIsGenerating] = useState(false);
   const queryClient = useQueryClient();
 
   const form = useForm<InsertItinerary>({
@@ -103,24 +101,15 @@ export default function CreateItinerary() {
       // Trigger confetti celebration for new trip creation
       triggerConfetti();
 
-      // Immediately generate the itinerary
-      setIsGenerating(true);
+      // Queue generation; the itinerary view polls the job for progress
       try {
-        const res = await apiRequest(
-          "POST",
-          `/api/itineraries/${itinerary.id}/generate`
-        );
-        const updatedItinerary = await res.json();
-
-        queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
-        setLocation(`/itinerary/${updatedItinerary.id}`);
+        await apiRequest("POST", `/api/itineraries/${itinerary.id}/generate`);
       } catch (error) {
-        console.error("Failed to generate itinerary:", error);
-        // Still navigate to the itinerary page even if generation fails
-        setLocation(`/itinerary/${itinerary.id}`);
-      } finally {
-        setIsGenerating(false);
+        console.error("Failed to queue itinerary generation:", error);
       }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+      setLocation(`/itinerary/${itinerary.id}`);
     },
   });
 
@@ -141,7 +130,7 @@ export default function CreateItinerary() {
     createItineraryMutation.mutate(data);
   };
 
-  const isLoading = createItineraryMutation.isPending || isGenerating;
+  const isLoading = createItineraryMutation.isPending;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -172,18 +161,11 @@ export default function CreateItinerary() {
           <div className="bg-white rounded-2xl p-8 max-w-md mx-4 text-center">
             <div className="loading-spinner w-16 h-16 mx-auto mb-4"></div>
             <h3 className="text-xl font-semibold text-slate-800 mb-2">
-              {createItineraryMutation.isPending
-                ? "Creating Your Itinerary..."
-                : "AI is Crafting Your Perfect Trip"}
+              Creating Your Itinerary...
             </h3>
             <p className="text-slate-600">
-              {createItineraryMutation.isPending
-                ? "Setting up your adventure details..."
-                : "Our AI is analyzing your preferences and creating a personalized travel plan..."}
+              Setting up your adventure details...
             </p>
-            <div className="mt-4 text-sm text-slate-500">
-              This usually takes 10-30 seconds
-            </div>
           </div>
         </div>
       )}
@@ -9,6 +9,9 @@ import { type Itinerary } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { EditItineraryDialog } from "@/components/edit-itinerary-dialog";
+import { CurrencySelect } from "@/components/currency-select";
+import { CalendarFeedDialog } from "@/components/calendar-feed-dialog";
+import { ImportItineraryButton } from "@/components/import-itinerary-button";
 import {
   Compass,
   Plus,
@@ -20,6 +23,7 @@ import {
   MapPin,
   Calendar,
   Trash2,
+  Share2,
 } from "lucide-react";
 
 const tripTypeIcons = {
@@ -98,6 +102,8 @@ export default function HomePage() {
             </div>
             <div className="flex items-center space-x-4">
               <span className="text-slate-600">{user?.username}</span>
+              <CurrencySelect />
+              <CalendarFeedDialog />
               <Button
                 variant="ghost"
                 size="sm"
@@ -124,7 +130,7 @@ export default function HomePage() {
         </div>
 
         {/* Create New Itinerary Button */}
-        <div className="mb-8">
+        <div className="mb-8 flex flex-wrap gap-4">
           <Link href="/create">
             <Button
               size="lg"
@@ -134,6 +140,7 @@ export default function HomePage() {
               Plan New Adventure
             </Button>
           </Link>
+          <ImportItineraryButton />
         </div>
 
         {/* Itineraries Grid */}
@@ -246,20 +253,27 @@ export default function HomePage() {
                   </Link>
 
                   {/* Action buttons positioned at bottom right outside Link */}
-                  <div className="absolute bottom-4 right-4 flex items-center space-x-1 z-10">
-                    <EditItineraryDialog itinerary={itinerary} />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) =>
-                        handleDelete(e, itinerary.id, itinerary.title)
-                      }
-                      className="text-red-500 hover:text-white hover:bg-red-600"
-                      disabled={deleteItineraryMutation.isPending}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
+                  {itinerary.userId === user?.id ? (
+                    <div className="absolute bottom-4 right-4 flex items-center space-x-1 z-10">
+                      <EditItineraryDialog itinerary={itinerary} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) =>
+                          handleDelete(e, itinerary.id, itinerary.title)
+                        }
+                        className="text-red-500 hover:text-white hover:bg-red-600"
+                        disabled={deleteItineraryMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="absolute bottom-4 right-4 flex items-center text-sm text-slate-500 z-10">
+                      <Share2 className="h-4 w-4 mr-1" />
+                      Shared with you
+                    </div>
+                  )}
                 </Card>
               );
             })}
@@ -1,76 +1,68 @@
+import { useEffect, useMemo, useState } from "react";
 import { useParams, useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { type Itinerary } from "@shared/schema";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  hasItineraryRole,
+  type Itinerary,
+  type GenerationJob,
+  type ItineraryCollaborator,
+  type ItineraryExpense,
+} from "@shared/schema";
+import { parseStoredItinerary, type DayPlan } from "@shared/itinerary";
+import { moveActivity, type ActivityPosition } from "@shared/activity-edits";
+import { renderItineraryText, type TextFormat } from "@shared/itinerary-text";
+import { type ScheduleWarning } from "@shared/schedule-check";
 import { apiRequest } from "@/lib/queryClient";
-import { exportToPDF } from "@/lib/pdf-export";
+import { RegenerateDayDialog } from "@/components/regenerate-day-dialog";
+import { OptimizeRouteDialog } from "@/components/optimize-route-dialog";
+import { ActivityAlternativesDialog } from "@/components/activity-alternatives-dialog";
+import { RefineChatPanel } from "@/components/refine-chat-panel";
+import { VersionHistoryDrawer } from "@/components/version-history-drawer";
+import { ShareItineraryDialog } from "@/components/share-itinerary-dialog";
+import { ItineraryMembersDialog } from "@/components/itinerary-members-dialog";
+import { ActivityFormDialog } from "@/components/activity-form-dialog";
+import { BudgetPanel } from "@/components/budget-panel";
+import { CurrencySelect } from "@/components/currency-select";
+import { ExpensesPanel } from "@/components/expenses-panel";
+import { PdfExportDialog } from "@/components/pdf-export-dialog";
+import { DayMapPanel } from "@/components/day-map-panel";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useItineraryEvents } from "@/hooks/use-itinerary-events";
+import { useCurrency } from "@/hooks/use-currency";
 import {
-  ArrowLeft,
-  Download,
-  Save,
-  Calendar,
-  Plane,
-  Bed,
-  Heart,
-  MapPin,
-  Sun,
-  Sunset,
-  Moon,
-  Lightbulb,
-  Clock,
-} from "lucide-react";
-
-interface DayPlan {
-  day: number;
-  date: string;
-  title: string;
-  activities: {
-    time: string;
-    period: string;
-    activity: string;
-    location: string;
-    duration?: string;
-    cost?: string;
-    notes?: string;
-  }[];
-}
-
-interface GeneratedItinerary {
-  title: string;
-  description: string;
-  duration: string;
-  days: DayPlan[];
-  recommendations: {
-    bestPhotoSpots: string[];
-    localTips: string[];
-    weatherAndPacking: string[];
-  };
-}
-
-const periodIcons = {
-  morning: Sun,
-  afternoon: Sunset,
-  evening: Moon,
-};
-
-const periodColors = {
-  morning: "bg-yellow-100 text-yellow-600",
-  afternoon: "bg-orange-100 text-orange-600",
-  evening: "bg-purple-100 text-purple-600",
-};
+  DayCard,
+  RecommendationsCard,
+  TripOverviewCard,
+} from "@/components/itinerary-content";
+import { ArrowLeft, Download, Save, Clock, Loader2 } from "lucide-react";
 
 export default function ItineraryView() {
   const [location, setLocation] = useLocation();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { toast } = useToast();
 
   // Extract ID from URL path manually since useParams isn't working
   const id = location.split("/").pop();
 
   // console.log("Extracted ID from URL:", id);
 
+  useItineraryEvents(id);
+  const { formatCost } = useCurrency();
+  const [pdfDialogOpen, setPdfDialogOpen] = useState(false);
+
   const {
     data: itinerary,
     isLoading,
@@ -96,6 +88,121 @@ export default function ItineraryView() {
     error
   );
 
+  const { data: generationJob } = useQuery<GenerationJob | null>({
+    queryKey: ["/api/itineraries", id, "generation-job"],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/itineraries/${id}/generation-job`
+      );
+      return await res.json();
+    },
+    enabled: !!id,
+    // Progress is pushed over the socket; slow polling covers dropped connections
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "queued" || status === "running" ? 10000 : false;
+    },
+  });
+
+  const { data: members = [] } = useQuery<ItineraryCollaborator[]>({
+    queryKey: ["/api/itineraries", id, "members"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/itineraries/${id}/members`);
+      return await res.json();
+    },
+    enabled: !!id,
+  });
+
+  // Until the member list loads, treat the user as a viewer
+  const role =
+    members.find((member) => member.userId === user?.id)?.role ?? "viewer";
+  const canEdit = hasItineraryRole(role, "editor");
+
+  // Shares the expenses panel's query
+  const { data: expenses = [] } = useQuery<ItineraryExpense[]>({
+    queryKey: ["/api/itineraries", id, "expenses"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/itineraries/${id}/expenses`);
+      return await res.json();
+    },
+    enabled: !!id,
+  });
+  // Splitting costs only makes sense once someone else is on the trip
+  const showExpenses = members.length > 1 || expenses.length > 0;
+
+  const isGenerating =
+    generationJob?.status === "queued" || generationJob?.status === "running";
+  const generationFailed = generationJob?.status === "failed";
+  const partialDays = (generationJob?.partialDays as DayPlan[] | null) ?? [];
+
+  // Pick up the finished itinerary once the job completes
+  useEffect(() => {
+    if (generationJob?.status === "done" && !itinerary?.generatedContent) {
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries", id] });
+      queryClient.invalidateQueries({ queryKey: ["/api/itineraries"] });
+    }
+  }, [generationJob?.status]);
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res =
+        generationFailed && generationJob
+          ? await apiRequest(
+              "POST",
+              `/api/generation-jobs/${generationJob.id}/retry`
+            )
+          : await apiRequest("POST", `/api/itineraries/${id}/generate`);
+      return (await res.json()) as GenerationJob;
+    },
+    onSuccess: (job) => {
+      queryClient.setQueryData(["/api/itineraries", id, "generation-job"], job);
+    },
+  });
+
+  // Applied to the cache right away so dragged activities don't jump back
+  const moveActivityMutation = useMutation({
+    mutationFn: async (move: {
+      from: ActivityPosition;
+      to: ActivityPosition;
+      expectedUpdatedAt: Date;
+    }) => {
+      const res = await apiRequest(
+        "POST",
+        `/api/itineraries/${id}/activities/move`,
+        move
+      );
+      return (await res.json()) as Itinerary;
+    },
+    onMutate: ({ from, to }) => {
+      const previous = queryClient.getQueryData<Itinerary>([
+        "/api/itineraries",
+        id,
+      ]);
+      const content =
+        previous?.generatedContent &&
+        moveActivity(previous.generatedContent, from, to);
+      if (previous && content) {
+        queryClient.setQueryData(["/api/itineraries", id], {
+          ...previous,
+          generatedContent: content,
+        });
+      }
+      return { previous };
+    },
+    onSuccess: (updatedItinerary) => {
+      queryClient.setQueryData(["/api/itineraries", id], updatedItinerary);
+    },
+    onError: (error: Error, _move, context) => {
+      queryClient.setQueryData(["/api/itineraries", id], context?.previous);
+      toast({
+        title: "Couldn't move activity",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const saveItineraryMutation = useMutation({
     mutationFn: async () => {
       const res = await apiRequest("PUT", `/api/itineraries/${id}`, {
@@ -109,9 +216,48 @@ export default function ItineraryView() {
     },
   });
 
-  const handleExportPDF = () => {
-    if (itinerary && itinerary.generatedContent) {
-      exportToPDF(itinerary, itinerary.generatedContent as GeneratedItinerary);
+  // Parsed once per change so days keep their identity between renders
+  const generatedContent = useMemo(
+    () => parseStoredItinerary(itinerary?.generatedContent),
+    [itinerary?.generatedContent]
+  );
+  const hasInvalidContent = !!itinerary?.generatedContent && !generatedContent;
+
+  // Keyed on updatedAt so every edit, including ones pushed over the socket,
+  // is checked again
+  const { data: scheduleCheck } = useQuery<{ warnings: ScheduleWarning[] }>({
+    queryKey: ["/api/itineraries", id, "schedule-check", itinerary?.updatedAt],
+    queryFn: async () => {
+      const res = await apiRequest(
+        "GET",
+        `/api/itineraries/${id}/schedule-check`
+      );
+      return await res.json();
+    },
+    enabled: !!generatedContent,
+    placeholderData: (previous) => previous,
+  });
+  const scheduleWarnings = scheduleCheck?.warnings ?? [];
+
+  const handleCopyText = async (format: TextFormat) => {
+    if (!generatedContent) return;
+    try {
+      await navigator.clipboard.writeText(
+        renderItineraryText(generatedContent, format)
+      );
+      toast({
+        title: "Copied to clipboard",
+        description:
+          format === "markdown"
+            ? "Paste it into Notion or any Markdown editor."
+            : "Paste it into a message or note.",
+      });
+    } catch {
+      toast({
+        title: "Couldn't copy",
+        description: "Your browser blocked access to the clipboard.",
+        variant: "destructive",
+      });
     }
   };
 
@@ -157,8 +303,6 @@ export default function ItineraryView() {
 
   console.log("Itinerary data:", itinerary);
   console.log("Generated content:", itinerary.generatedContent);
-  const generatedContent =
-    itinerary.generatedContent as GeneratedItinerary | null;
 
   return (
     <div className="min-h-screen bg-slate-50">
@@ -181,7 +325,8 @@ export default function ItineraryView() {
               </h1>
             </div>
             <div className="flex items-center space-x-3">
-              {itinerary.status !== "saved" && (
+              <CurrencySelect />
+              {canEdit && itinerary.status !== "saved" && (
                 <Button
                   variant="outline"
                   onClick={handleSave}
@@ -192,13 +337,86 @@ export default function ItineraryView() {
                 </Button>
               )}
               {generatedContent && (
-                <Button
-                  className="bg-accent hover:bg-accent/90 text-white"
-                  onClick={handleExportPDF}
-                >
-                  <Download className="h-4 w-4 mr-2" />
-                  Export PDF
-                </Button>
+                <VersionHistoryDrawer
+                  itinerary={itinerary}
+                  canRestore={canEdit}
+                />
+              )}
+              <ItineraryMembersDialog
+                itineraryId={itinerary.id}
+                members={members}
+                role={role}
+              />
+              {role === "owner" && (
+                <ShareItineraryDialog itineraryId={itinerary.id} />
+              )}
+              {canEdit && generatedContent && (
+                <RefineChatPanel
+                  itinerary={itinerary}
+                  generatedContent={generatedContent}
+                />
+              )}
+              {generatedContent && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button className="bg-accent hover:bg-accent/90 text-white">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => setPdfDialogOpen(true)}>
+                      PDF document
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/itineraries/${itinerary.id}/calendar.ics`}>
+                        Calendar (.ics)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/itineraries/${itinerary.id}/route.gpx`}>
+                        Map route (.gpx)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/itineraries/${itinerary.id}/route.kml`}>
+                        Map route (.kml)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/itineraries/${itinerary.id}/export.json`}>
+                        Trip data (.json)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/itineraries/${itinerary.id}/export.md`}>
+                        Markdown (.md)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <a href={`/api/itineraries/${itinerary.id}/export.txt`}>
+                        Plain text (.txt)
+                      </a>
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => handleCopyText("text")}>
+                      Copy as text
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onSelect={() => handleCopyText("markdown")}
+                    >
+                      Copy as Markdown
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {generatedContent && (
+                <PdfExportDialog
+                  itineraryId={itinerary.id}
+                  days={generatedContent.days}
+                  open={pdfDialogOpen}
+                  onOpenChange={setPdfDialogOpen}
+                />
               )}
             </div>
           </div>
@@ -206,7 +424,49 @@ export default function ItineraryView() {
       </header>
 
       <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {!generatedContent ? (
+        {!generatedContent && (isGenerating || generationFailed) ? (
+          // Render days as the background job produces them
+          <>
+            <Card className="shadow-lg mb-8">
+              <CardContent className="p-8 flex items-center space-x-4">
+                {isGenerating ? (
+                  <Loader2 className="h-8 w-8 text-primary animate-spin" />
+                ) : (
+                  <Clock className="h-8 w-8 text-slate-400" />
+                )}
+                <div className="flex-1">
+                  <h3 className="text-xl font-semibold text-slate-800">
+                    {generationJob?.status === "queued"
+                      ? "Waiting for the AI planner..."
+                      : isGenerating
+                        ? "AI is Crafting Your Perfect Trip"
+                        : "Generation failed"}
+                  </h3>
+                  <p className="text-slate-600">
+                    {generationJob?.error ??
+                      `${partialDays.length} ${
+                        partialDays.length === 1 ? "day" : "days"
+                      } ready for ${itinerary.location}`}
+                  </p>
+                </div>
+                {canEdit && generationFailed && (
+                  <Button
+                    className="bg-accent hover:bg-accent/90 text-white"
+                    onClick={() => generateMutation.mutate()}
+                    disabled={generateMutation.isPending}
+                  >
+                    Try Again
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+            <div className="space-y-6">
+              {partialDays.map((day) => (
+                <DayCard key={day.day} day={day} />
+              ))}
+            </div>
+          </>
+        ) : !generatedContent ? (
           // Show basic itinerary info if not generated yet
           <Card className="shadow-lg">
             <CardContent className="p-8">
@@ -215,11 +475,14 @@ export default function ItineraryView() {
                   <Clock className="w-full h-full text-slate-400" />
                 </div>
                 <h3 className="text-xl font-semibold text-slate-600 mb-2">
-                  Itinerary not generated yet
+                  {hasInvalidContent
+                    ? "Itinerary content is incomplete"
+                    : "Itinerary not generated yet"}
                 </h3>
                 <p className="text-slate-500 mb-6">
-                  This itinerary hasn't been generated by AI yet. Would you like
-                  to generate it now?
+                  {hasInvalidContent
+                    ? "The saved plan for this trip is missing some details. Would you like to generate it again?"
+                    : "This itinerary hasn't been generated by AI yet. Would you like to generate it now?"}
                 </p>
                 <div className="space-y-4">
                   <div className="text-left max-w-md mx-auto">
@@ -238,208 +501,135 @@ export default function ItineraryView() {
                       <strong>Transportation:</strong> {itinerary.transport}
                     </p>
                   </div>
-                  <Button
-                    className="bg-accent hover:bg-accent/90 text-white"
-                    onClick={() => setLocation(`/create`)}
-                  >
-                    Generate Itinerary
-                  </Button>
+                  {canEdit && (
+                    <Button
+                      className="bg-accent hover:bg-accent/90 text-white"
+                      onClick={() => generateMutation.mutate()}
+                      disabled={generateMutation.isPending}
+                    >
+                      {hasInvalidContent
+                        ? "Regenerate Itinerary"
+                        : "Generate Itinerary"}
+                    </Button>
+                  )}
                 </div>
               </div>
             </CardContent>
           </Card>
         ) : (
-          <>
-            {/* Trip Overview */}
-            <Card className="shadow-lg mb-8">
-              <CardContent className="p-8">
-                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-                  <div className="lg:col-span-2">
-                    <h2 className="text-3xl font-bold text-slate-800 mb-4">
-                      {generatedContent.title}
-                    </h2>
-                    <p className="text-slate-600 mb-6">
-                      {generatedContent.description}
-                    </p>
+          <Tabs defaultValue="itinerary">
+            <TabsList className="mb-6">
+              <TabsTrigger value="itinerary">Itinerary</TabsTrigger>
+              <TabsTrigger value="map">Map</TabsTrigger>
+              {showExpenses && (
+                <TabsTrigger value="expenses">Expenses</TabsTrigger>
+              )}
+            </TabsList>
 
-                    {/* Trip Details Grid */}
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                      <div className="text-center p-4 bg-slate-50 rounded-xl">
-                        <Calendar className="h-6 w-6 text-primary mx-auto mb-2" />
-                        <div className="text-sm text-slate-500">Duration</div>
-                        <div className="font-semibold text-slate-800">
-                          {generatedContent.duration}
-                        </div>
-                      </div>
-                      <div className="text-center p-4 bg-slate-50 rounded-xl">
-                        <Plane className="h-6 w-6 text-primary mx-auto mb-2" />
-                        <div className="text-sm text-slate-500">Transport</div>
-                        <div className="font-semibold text-slate-800 capitalize">
-                          {itinerary.transport}
-                        </div>
-                      </div>
-                      <div className="text-center p-4 bg-slate-50 rounded-xl">
-                        <Bed className="h-6 w-6 text-primary mx-auto mb-2" />
-                        <div className="text-sm text-slate-500">Stay</div>
-                        <div className="font-semibold text-slate-800 capitalize">
-                          {itinerary.accommodation}
-                        </div>
-                      </div>
-                      <div className="text-center p-4 bg-slate-50 rounded-xl">
-                        <Heart className="h-6 w-6 text-primary mx-auto mb-2" />
-                        <div className="text-sm text-slate-500">Type</div>
-                        <div className="font-semibold text-slate-800 capitalize">
-                          {itinerary.tripType}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
+            <TabsContent value="itinerary">
+              <TripOverviewCard
+                itinerary={itinerary}
+                generatedContent={generatedContent}
+              />
 
-                  <div className="lg:col-span-1">
-                    <div className="w-full h-64 bg-gradient-to-br from-primary/10 to-secondary/10 rounded-xl shadow-lg flex items-center justify-center">
-                      <div className="text-center">
-                        <MapPin className="h-16 w-16 text-primary mx-auto mb-4" />
-                        <p className="text-lg font-semibold text-slate-700">
-                          {itinerary.location}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+              <BudgetPanel
+                itinerary={itinerary}
+                generatedContent={generatedContent}
+                canEdit={canEdit}
+                formatCost={formatCost}
+              />
 
-            {/* Daily Itinerary */}
-            <div className="space-y-6">
-              {generatedContent.days.map((day, index) => (
-                <Card key={day.day} className="shadow-lg overflow-hidden">
-                  <div className="travel-gradient text-white p-6">
-                    <div className="flex items-center justify-between">
-                      <h3 className="text-xl font-bold">
-                        Day {day.day} - {day.title}
-                      </h3>
-                      <span className="text-white/80">
-                        {new Date(day.date).toLocaleDateString()}
-                      </span>
-                    </div>
-                  </div>
+              {/* Daily Itinerary */}
+              <div className="space-y-6">
+                {generatedContent.days.map((day) => (
+                  <DayCard
+                    key={day.day}
+                    day={day}
+                    formatCost={formatCost}
+                    warnings={scheduleWarnings.filter(
+                      (warning) => warning.day === day.day
+                    )}
+                    actions={
+                      canEdit && (
+                        <>
+                          <OptimizeRouteDialog
+                            itineraryId={itinerary.id}
+                            day={day}
+                            transport={itinerary.transport}
+                            updatedAt={itinerary.updatedAt}
+                          />
+                          <RegenerateDayDialog
+                            itineraryId={itinerary.id}
+                            day={day}
+                          />
+                        </>
+                      )
+                    }
+                    activityActions={
+                      canEdit
+                        ? (activity, activityIndex) => (
+                            <div className="flex items-center">
+                              <ActivityFormDialog
+                                itineraryId={itinerary.id}
+                                dayNumber={day.day}
+                                activity={activity}
+                                activityIndex={activityIndex}
+                                updatedAt={itinerary.updatedAt}
+                                defaultCurrency={itinerary.budgetCurrency}
+                              />
+                              <ActivityAlternativesDialog
+                                itineraryId={itinerary.id}
+                                dayNumber={day.day}
+                                activityIndex={activityIndex}
+                                activity={activity}
+                              />
+                            </div>
+                          )
+                        : undefined
+                    }
+                    onMoveActivity={
+                      canEdit
+                        ? (from, to) =>
+                            moveActivityMutation.mutate({
+                              from,
+                              to,
+                              expectedUpdatedAt: itinerary.updatedAt,
+                            })
+                        : undefined
+                    }
+                    footer={
+                      canEdit && (
+                        <ActivityFormDialog
+                          itineraryId={itinerary.id}
+                          dayNumber={day.day}
+                          defaultCurrency={itinerary.budgetCurrency}
+                        />
+                      )
+                    }
+                  />
+                ))}
+              </div>
 
-                  <CardContent className="p-6">
-                    <div className="space-y-6">
-                      {day.activities.map((activity, activityIndex) => {
-                        const PeriodIcon =
-                          periodIcons[
-                            activity.period as keyof typeof periodIcons
-                          ] || Sun;
-                        const periodColor =
-                          periodColors[
-                            activity.period as keyof typeof periodColors
-                          ] || "bg-gray-100 text-gray-600";
+              <RecommendationsCard
+                recommendations={generatedContent.recommendations}
+              />
+            </TabsContent>
 
-                        return (
-                          <div
-                            key={activityIndex}
-                            className="flex items-start space-x-4"
-                          >
-                            <div
-                              className={`flex-shrink-0 w-12 h-12 rounded-full flex items-center justify-center ${periodColor}`}
-                            >
-                              <PeriodIcon className="h-5 w-5" />
-                            </div>
-                            <div className="flex-1">
-                              <div className="flex items-center space-x-2 mb-2">
-                                <h4 className="font-semibold text-slate-800 capitalize">
-                                  {activity.period}
-                                </h4>
-                                <span className="text-sm text-slate-500">
-                                  ({activity.time})
-                                </span>
-                                {activity.duration && (
-                                  <Badge
-                                    variant="secondary"
-                                    className="text-xs"
-                                  >
-                                    {activity.duration}
-                                  </Badge>
-                                )}
-                                {activity.cost && (
-                                  <Badge variant="outline" className="text-xs">
-                                    {activity.cost}
-                                  </Badge>
-                                )}
-                              </div>
-                              <p className="text-slate-600 mb-2">
-                                {activity.activity}
-                              </p>
-                              <p className="text-sm text-slate-500 flex items-center">
-                                <MapPin className="h-3 w-3 mr-1" />
-                                {activity.location}
-                              </p>
-                              {activity.notes && (
-                                <p className="text-sm text-slate-500 mt-1 italic">
-                                  {activity.notes}
-                                </p>
-                              )}
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
-            </div>
+            <TabsContent value="map">
+              <DayMapPanel days={generatedContent.days} />
+            </TabsContent>
 
-            {/* Recommendations */}
-            {generatedContent.recommendations && (
-              <Card className="shadow-lg mt-8">
-                <CardContent className="p-8">
-                  <h3 className="text-2xl font-bold text-slate-800 mb-6 flex items-center">
-                    <Lightbulb className="h-6 w-6 text-accent mr-2" />
-                    AI Recommendations
-                  </h3>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                    <div className="p-4 bg-slate-50 rounded-xl">
-                      <h4 className="font-semibold text-slate-800 mb-2">
-                        Best Photo Spots
-                      </h4>
-                      <ul className="text-sm text-slate-600 space-y-1">
-                        {generatedContent.recommendations.bestPhotoSpots.map(
-                          (spot, index) => (
-                            <li key={index}>• {spot}</li>
-                          )
-                        )}
-                      </ul>
-                    </div>
-                    <div className="p-4 bg-slate-50 rounded-xl">
-                      <h4 className="font-semibold text-slate-800 mb-2">
-                        Local Tips
-                      </h4>
-                      <ul className="text-sm text-slate-600 space-y-1">
-                        {generatedContent.recommendations.localTips.map(
-                          (tip, index) => (
-                            <li key={index}>• {tip}</li>
-                          )
-                        )}
-                      </ul>
-                    </div>
-                    <div className="p-4 bg-slate-50 rounded-xl">
-                      <h4 className="font-semibold text-slate-800 mb-2">
-                        Weather & Packing
-                      </h4>
-                      <ul className="text-sm text-slate-600 space-y-1">
-                        {generatedContent.recommendations.weatherAndPacking.map(
-                          (item, index) => (
-                            <li key={index}>• {item}</li>
-                          )
-                        )}
-                      </ul>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
+            {showExpenses && (
+              <TabsContent value="expenses">
+                <ExpensesPanel
+                  itinerary={itinerary}
+                  collaborators={members}
+                  days={generatedContent.days}
+                  canEdit={canEdit}
+                />
+              </TabsContent>
             )}
-          </>
+          </Tabs>
         )}
       </main>
     </div>
@@ -0,0 +1,121 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { type SharedItinerary } from "@shared/schema";
+import { parseStoredItinerary } from "@shared/itinerary";
+import {
+  DayCard,
+  RecommendationsCard,
+  TripOverviewCard,
+} from "@/components/itinerary-content";
+import { Clock, Compass, Link2Off } from "lucide-react";
+
+export default function SharedItineraryPage() {
+  const { token } = useParams<{ token: string }>();
+
+  const {
+    data: itinerary,
+    isLoading,
+    error,
+  } = useQuery<SharedItinerary>({
+    queryKey: [`/api/shared/${token}`],
+    enabled: !!token,
+  });
+
+  const generatedContent = parseStoredItinerary(itinerary?.generatedContent);
+
+  const header = (
+    <header className="bg-white shadow-sm border-b border-slate-200">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex items-center space-x-3 h-16">
+          <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
+            <Compass className="h-6 w-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-slate-800">
+            {itinerary?.title ?? "Wanderlust"}
+          </h1>
+        </div>
+      </div>
+    </header>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        {header}
+        <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Skeleton className="h-64 w-full mb-8" />
+          <div className="space-y-6">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-96 w-full" />
+            ))}
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  if (!itinerary) {
+    // Errors from the default query function are prefixed with the status
+    const expired = error?.message.startsWith("410");
+    return (
+      <div className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <div className="text-center">
+          <Link2Off className="h-12 w-12 mx-auto mb-4 text-slate-400" />
+          <h2 className="text-2xl font-semibold text-slate-800 mb-2">
+            {expired ? "This link has expired" : "Itinerary not found"}
+          </h2>
+          <p className="text-slate-500">
+            Ask the trip owner for a new share link.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      {header}
+
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {!generatedContent ? (
+          <Card className="shadow-lg">
+            <CardContent className="p-8">
+              <div className="text-center py-12">
+                <div className="w-24 h-24 mx-auto mb-4 opacity-40">
+                  <Clock className="w-full h-full text-slate-400" />
+                </div>
+                <h3 className="text-xl font-semibold text-slate-600 mb-2">
+                  This trip is still being planned
+                </h3>
+                <p className="text-slate-500">
+                  {itinerary.location} ·{" "}
+                  {new Date(itinerary.startDate).toLocaleDateString()} -{" "}
+                  {new Date(itinerary.endDate).toLocaleDateString()}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <TripOverviewCard
+              itinerary={itinerary}
+              generatedContent={generatedContent}
+            />
+
+            <div className="space-y-6">
+              {generatedContent.days.map((day) => (
+                <DayCard key={day.day} day={day} />
+              ))}
+            </div>
+
+            <RecommendationsCard
+              recommendations={generatedContent.recommendations}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -42,8 +42,10 @@ export function setupAuth(app: Express) {
     store: storage.sessionStore,
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -96,4 +98,7 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(req.user);
   });
+
+  // Shared with the WebSocket server so sockets use the same login
+  return sessionMiddleware;
 }
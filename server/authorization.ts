@@ -0,0 +1,40 @@
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import {
+  hasItineraryRole,
+  type Itinerary,
+  type ItineraryRole,
+} from "@shared/schema";
+
+// The owner is recorded on the itinerary itself; everyone else is a member
+export async function getItineraryRole(
+  itinerary: Itinerary,
+  userId: number
+): Promise<ItineraryRole | undefined> {
+  if (itinerary.userId === userId) return "owner";
+  const member = await storage.getItineraryMember(itinerary.id, userId);
+  return member?.role as ItineraryRole | undefined;
+}
+
+// Loads the itinerary if the signed-in user holds at least the given role,
+// otherwise responds with 404/403 and returns undefined
+export async function authorizeItinerary(
+  req: Request,
+  res: Response,
+  itineraryId: number,
+  minimumRole: ItineraryRole
+): Promise<Itinerary | undefined> {
+  const itinerary = await storage.getItinerary(itineraryId);
+  if (!itinerary) {
+    res.status(404).json({ message: "Itinerary not found" });
+    return undefined;
+  }
+
+  const role = await getItineraryRole(itinerary, req.user!.id);
+  if (!role || !hasItineraryRole(role, minimumRole)) {
+    res.status(403).json({ message: "Access denied" });
+    return undefined;
+  }
+
+  return itinerary;
+}
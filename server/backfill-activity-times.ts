@@ -0,0 +1,59 @@
+import { eq, isNotNull } from "drizzle-orm";
+import { itineraries } from "@shared/schema";
+import { parseStoredItinerary } from "@shared/itinerary";
+import { db } from "./db";
+import { storage } from "./storage";
+
+// One-off data migration: fills in activity startTime/endTime by parsing the
+// time and duration strings of existing itineraries. Run `npm run db:push`
+// first to add the columns, then `npm run db:backfill-times`. Times that
+// can't be read, such as "Sunset", are left without structured times. Safe
+// to re-run; activities that already have a startTime are kept as they are.
+async function backfillActivityTimes() {
+  const rows = await db
+    .select({
+      id: itineraries.id,
+      generatedContent: itineraries.generatedContent,
+    })
+    .from(itineraries)
+    .where(isNotNull(itineraries.generatedContent));
+
+  let migrated = 0;
+  let activities = 0;
+  let unparsed = 0;
+  for (const row of rows) {
+    const content = parseStoredItinerary(row.generatedContent);
+    if (!content) {
+      console.warn(
+        `Skipping itinerary ${row.id}: content does not match the schema`
+      );
+      continue;
+    }
+
+    // Written directly so the migration doesn't add a version per itinerary
+    await db
+      .update(itineraries)
+      .set({ generatedContent: content })
+      .where(eq(itineraries.id, row.id));
+    await storage.replaceItineraryDays(row.id, content.days);
+
+    for (const day of content.days) {
+      for (const activity of day.activities) {
+        activities++;
+        if (!activity.startTime) unparsed++;
+      }
+    }
+    migrated++;
+  }
+
+  console.log(
+    `Backfilled times for ${migrated} of ${rows.length} itineraries; ${unparsed} of ${activities} activities had no readable time`
+  );
+}
+
+backfillActivityTimes()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  });
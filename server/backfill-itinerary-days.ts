@@ -0,0 +1,44 @@
+import { isNotNull } from "drizzle-orm";
+import { itineraries } from "@shared/schema";
+import { dayPlanSchema } from "@shared/itinerary";
+import { db } from "./db";
+import { storage } from "./storage";
+
+// One-off data migration: copies the days stored in
+// itineraries.generated_content into itinerary_days and itinerary_activities.
+// Run `npm run db:push` first to create the tables, then `npm run db:backfill`.
+// Safe to re-run; each itinerary's rows are rewritten from its JSONB content.
+async function backfillItineraryDays() {
+  const rows = await db
+    .select({
+      id: itineraries.id,
+      generatedContent: itineraries.generatedContent,
+    })
+    .from(itineraries)
+    .where(isNotNull(itineraries.generatedContent));
+
+  let migrated = 0;
+  for (const row of rows) {
+    const days = dayPlanSchema.array().safeParse(row.generatedContent?.days);
+    if (!days.success) {
+      console.warn(
+        `Skipping itinerary ${row.id}: days do not match the schema`
+      );
+      continue;
+    }
+
+    await storage.replaceItineraryDays(row.id, days.data);
+    migrated++;
+  }
+
+  console.log(
+    `Backfilled ${migrated} of ${rows.length} itineraries into itinerary_days`
+  );
+}
+
+backfillItineraryDays()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Backfill failed:", error);
+    process.exit(1);
+  });
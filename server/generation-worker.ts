@@ -0,0 +1,113 @@
+import { type GenerationJob } from "@shared/schema";
+import { type DayPlan } from "@shared/itinerary";
+import { storage } from "./storage";
+import { publishGenerationJob, publishItineraryUpdate } from "./realtime";
+import {
+  ItineraryValidationError,
+  streamItinerary,
+  toItineraryRequest,
+} from "./services/openai";
+import { queueGeocoding } from "./geocode-queue";
+
+const POLL_INTERVAL_MS = 2000;
+// Workers touch their running job this often. A job left untouched for the
+// whole lease belonged to a worker that stopped, and goes back in the queue.
+const HEARTBEAT_MS = 30 * 1000;
+const JOB_LEASE_MS = 2 * 60 * 1000;
+
+async function runJob(job: GenerationJob) {
+  const itinerary = await storage.getItinerary(job.itineraryId);
+  if (!itinerary) {
+    throw new Error("Itinerary no longer exists");
+  }
+
+  // Persist and push days as they stream in so viewers see progress. Updates are
+  // chained so a slow write can't overwrite a newer one.
+  const days: DayPlan[] = [];
+  let progress = Promise.resolve();
+  const generatedContent = await streamItinerary(
+    toItineraryRequest(itinerary),
+    (day) => {
+      days.push(day);
+      const partialDays = [...days];
+      progress = progress
+        .then(() => storage.updateGenerationJob(job.id, { partialDays }))
+        .then(publishGenerationJob)
+        .catch((error) => {
+          console.error("Error saving generation progress:", error);
+        });
+    }
+  );
+  await progress;
+
+  const updatedItinerary = await storage.updateItinerary(
+    itinerary.id,
+    { generatedContent, status: "generated" },
+    { authorId: job.userId, reason: "generate" }
+  );
+  publishItineraryUpdate(updatedItinerary);
+  queueGeocoding(itinerary.id);
+}
+
+// Runs the next queued job, returning false when the queue is empty
+async function processNextJob(): Promise<boolean> {
+  const job = await storage.claimNextGenerationJob();
+  if (!job) return false;
+  publishGenerationJob(job);
+
+  const heartbeat = setInterval(() => {
+    storage.updateGenerationJob(job.id, {}).catch((error) => {
+      console.error(`Error renewing generation job ${job.id}:`, error);
+    });
+  }, HEARTBEAT_MS);
+  try {
+    await runJob(job);
+    const doneJob = await storage.updateGenerationJob(job.id, {
+      status: "done",
+      error: null,
+      finishedAt: new Date(),
+    });
+    publishGenerationJob(doneJob);
+  } catch (error) {
+    console.error(`Generation job ${job.id} failed:`, error);
+    const failedJob = await storage.updateGenerationJob(job.id, {
+      status: "failed",
+      error:
+        error instanceof Error ? error.message : "Failed to generate itinerary",
+      errorDetails:
+        error instanceof ItineraryValidationError ? error.issues : null,
+      finishedAt: new Date(),
+    });
+    publishGenerationJob(failedJob);
+  } finally {
+    clearInterval(heartbeat);
+  }
+
+  return true;
+}
+
+// Resumes jobs whose worker stopped mid-run, such as on a restart, while
+// leaving jobs that another live worker is still renewing alone
+async function requeueStaleJobs() {
+  const requeued = await storage.requeueStaleGenerationJobs(
+    new Date(Date.now() - JOB_LEASE_MS)
+  );
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} interrupted generation job(s)`);
+  }
+}
+
+export function startGenerationWorker() {
+  const poll = async () => {
+    try {
+      await requeueStaleJobs();
+      while (await processNextJob()) {}
+    } catch (error) {
+      console.error("Generation worker error:", error);
+    } finally {
+      setTimeout(poll, POLL_INTERVAL_MS);
+    }
+  };
+
+  poll();
+}
@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import { publishItineraryUpdate } from "./realtime";
+import { applyGeocodes, lookupPendingLocations } from "./services/geocoder";
+
+// Geocoding can be slow (Nominatim allows one lookup a second), so it runs
+// after content is saved instead of holding up the request. Coordinates are
+// merged into the content as it is when the lookups finish and reach viewers
+// through the usual itinerary.updated event.
+
+const running = new Map<number, Promise<void>>();
+
+async function geocodeSavedItinerary(itineraryId: number) {
+  const itinerary = await storage.getItinerary(itineraryId);
+  if (!itinerary?.generatedContent) return;
+
+  const results = await lookupPendingLocations(
+    itinerary.generatedContent,
+    itinerary.location
+  );
+  if (results.size === 0) return;
+
+  // Read again so edits made during the lookups aren't overwritten
+  const latest = await storage.getItinerary(itineraryId);
+  if (!latest?.generatedContent) return;
+  const generatedContent = applyGeocodes(
+    latest.generatedContent,
+    latest.location,
+    results
+  );
+  if (generatedContent === latest.generatedContent) return;
+
+  const updatedItinerary = await storage.updateItinerary(
+    itineraryId,
+    { generatedContent },
+    { authorId: null, reason: "edit", snapshot: false }
+  );
+  publishItineraryUpdate(updatedItinerary);
+}
+
+// Geocodes activities without coordinates once any earlier run for the same
+// itinerary has finished
+export function queueGeocoding(itineraryId: number) {
+  const next = (running.get(itineraryId) ?? Promise.resolve())
+    .then(() => geocodeSavedItinerary(itineraryId))
+    .catch((error) => {
+      console.error(`Error geocoding itinerary ${itineraryId}:`, error);
+    })
+    .finally(() => {
+      if (running.get(itineraryId) === next) running.delete(itineraryId);
+    });
+  running.set(itineraryId, next);
+}
@@ -0,0 +1,44 @@
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import { currencyCodeSchema } from "@shared/itinerary";
+import { storage } from "./storage";
+
+// Replaces the exchange_rates table with the rates in a JSON file, so cost
+// conversion never depends on a live API. Usage:
+//   npm run rates:import -- path/to/rates.json
+// The file lists how many units of each currency one unit of the base buys:
+//   { "base": "EUR", "rates": { "USD": 1.08, "GBP": 0.85, "JPY": 161.2 } }
+const rateFileSchema = z.object({
+  base: currencyCodeSchema,
+  rates: z.record(currencyCodeSchema, z.number().positive()),
+});
+
+async function importExchangeRates(path: string | undefined) {
+  if (!path) {
+    throw new Error("Pass the path of a rates file to import");
+  }
+
+  const file = rateFileSchema.parse(JSON.parse(await readFile(path, "utf8")));
+  const rates = { ...file.rates, [file.base]: 1 };
+  const updatedAt = new Date();
+
+  await storage.replaceExchangeRates(
+    Object.entries(rates).map(([currency, rate]) => ({
+      currency,
+      rate,
+      base: file.base,
+      updatedAt,
+    }))
+  );
+
+  console.log(
+    `Imported ${Object.keys(rates).length} exchange rates against ${file.base}`
+  );
+}
+
+importExchangeRates(process.argv[2])
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Exchange rate import failed:", error);
+    process.exit(1);
+  });
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { startGenerationWorker } from "./generation-worker";
 import { setupVite, serveStatic, log } from "./vite";
 
 import dotenv from "dotenv";
@@ -66,4 +67,6 @@ app.use((req, res, next) => {
   server.listen(port, "localhost", () => {
     log(`serving on port ${port}`);
   });
+
+  startGenerationWorker();
 })();
@@ -0,0 +1,174 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import type { Session } from "express-session";
+import { WebSocket, WebSocketServer } from "ws";
+import { type GenerationJob, type Itinerary } from "@shared/schema";
+import {
+  clientMessageSchema,
+  type ItineraryEvent,
+  type ServerMessage,
+} from "@shared/realtime";
+import { storage } from "./storage";
+import { getItineraryRole } from "./authorization";
+
+const WS_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30000;
+
+interface Client {
+  userId: number;
+  itineraryIds: Set<number>;
+  alive: boolean;
+}
+
+const clients = new Map<WebSocket, Client>();
+const subscribers = new Map<number, Set<WebSocket>>();
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function unsubscribe(socket: WebSocket, itineraryId: number) {
+  clients.get(socket)?.itineraryIds.delete(itineraryId);
+  const sockets = subscribers.get(itineraryId);
+  sockets?.delete(socket);
+  if (sockets?.size === 0) subscribers.delete(itineraryId);
+}
+
+async function subscribe(socket: WebSocket, itineraryId: number) {
+  const client = clients.get(socket);
+  if (!client) return;
+
+  const itinerary = await storage.getItinerary(itineraryId);
+  const role = itinerary && (await getItineraryRole(itinerary, client.userId));
+  if (!role) {
+    return send(socket, { type: "error", message: "Access denied" });
+  }
+
+  // The socket may have closed while access was checked, and its close
+  // handler has already cleaned up; adding it now would leak it
+  if (socket.readyState !== WebSocket.OPEN || clients.get(socket) !== client) {
+    return;
+  }
+
+  client.itineraryIds.add(itineraryId);
+  if (!subscribers.has(itineraryId)) subscribers.set(itineraryId, new Set());
+  subscribers.get(itineraryId)!.add(socket);
+}
+
+function handleConnection(socket: WebSocket, userId: number) {
+  clients.set(socket, { userId, itineraryIds: new Set(), alive: true });
+
+  socket.on("pong", () => {
+    const client = clients.get(socket);
+    if (client) client.alive = true;
+  });
+
+  socket.on("message", async (data) => {
+    try {
+      const message = clientMessageSchema.parse(JSON.parse(data.toString()));
+      if (message.type === "subscribe") {
+        await subscribe(socket, message.itineraryId);
+      } else {
+        unsubscribe(socket, message.itineraryId);
+      }
+    } catch (error) {
+      send(socket, { type: "error", message: "Invalid message" });
+    }
+  });
+
+  socket.on("close", () => {
+    const client = clients.get(socket);
+    for (const itineraryId of Array.from(client?.itineraryIds ?? [])) {
+      unsubscribe(socket, itineraryId);
+    }
+    clients.delete(socket);
+  });
+}
+
+// Runs the express session middleware against the upgrade request to find the
+// signed-in user, mirroring what passport.session() does for HTTP requests
+function getSessionUserId(
+  req: IncomingMessage,
+  sessionMiddleware: RequestHandler
+): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const session = (req as Request).session as
+        (Session & { passport?: { user?: number } }) | undefined;
+      resolve(session?.passport?.user);
+    });
+  });
+}
+
+// Attaches the /ws endpoint to the HTTP server. Other upgrade requests, such
+// as Vite's HMR socket in development, are left alone.
+export function setupRealtime(
+  server: Server,
+  sessionMiddleware: RequestHandler
+) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "", "http://localhost").pathname !== WS_PATH) {
+      return;
+    }
+
+    const userId = await getSessionUserId(req, sessionMiddleware);
+    if (!userId) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, userId));
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    for (const [socket, client] of Array.from(clients)) {
+      if (!client.alive) {
+        socket.terminate();
+        continue;
+      }
+      client.alive = false;
+      socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+export function publishItineraryEvent(event: ItineraryEvent) {
+  for (const socket of Array.from(subscribers.get(event.itineraryId) ?? [])) {
+    send(socket, event);
+  }
+}
+
+export function publishItineraryUpdate(itinerary: Itinerary | undefined) {
+  if (!itinerary) return;
+  publishItineraryEvent({
+    type: "itinerary.updated",
+    itineraryId: itinerary.id,
+    itinerary,
+  });
+}
+
+export function publishGenerationJob(job: GenerationJob | undefined) {
+  if (!job) return;
+  publishItineraryEvent({
+    type: "generation-job.updated",
+    itineraryId: job.itineraryId,
+    job,
+  });
+}
+
+// Stops pushing an itinerary's events to a user who lost access, or to
+// everyone when the itinerary was deleted
+export function revokeSubscriptions(itineraryId: number, userId?: number) {
+  for (const socket of Array.from(subscribers.get(itineraryId) ?? [])) {
+    if (userId === undefined || clients.get(socket)?.userId === userId) {
+      unsubscribe(socket, itineraryId);
+    }
+  }
+}
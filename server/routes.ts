@@ -1,15 +1,136 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { setupAuth } from "./auth";
 import { storage } from "./storage";
-import { generateItinerary } from "./services/openai";
+import { authorizeItinerary } from "./authorization";
+import {
+  publishGenerationJob,
+  publishItineraryEvent,
+  publishItineraryUpdate,
+  revokeSubscriptions,
+  setupRealtime,
+} from "./realtime";
+import {
+  ItineraryValidationError,
+  refineItinerary,
+  regenerateDay,
+  suggestActivityAlternatives,
+  toItineraryRequest,
+} from "./services/openai";
 import { googlePlacesService } from "./services/google-places";
-import { insertItinerarySchema, updateItinerarySchema } from "@shared/schema";
+import { queueGeocoding } from "./geocode-queue";
+import { buildCalendar } from "./services/calendar";
+import { buildGpx, buildKml } from "./services/geo-export";
+import { pdfFilename, renderItineraryPdf } from "./services/pdf";
+import {
+  insertItinerarySchema,
+  updateItinerarySchema,
+  regenerateDaySchema,
+  swapActivitySchema,
+  addActivitySchema,
+  updateActivitySchema,
+  deleteActivitySchema,
+  moveActivitySchema,
+  optimizeRouteSchema,
+  createItineraryMessageSchema,
+  createItineraryShareSchema,
+  inviteItineraryMemberSchema,
+  updateItineraryMemberSchema,
+  updateUserSchema,
+  itineraryExpenseSchema,
+  type GenerationJob,
+  type Itinerary,
+  type ItineraryCollaborator,
+} from "@shared/schema";
+import {
+  insertActivity,
+  moveActivity,
+  removeActivity,
+  replaceActivity,
+} from "@shared/activity-edits";
+import {
+  itineraryExportSchema,
+  toItineraryExport,
+} from "@shared/itinerary-export";
+import { parseStoredItinerary } from "@shared/itinerary";
+import { pdfExportOptionsSchema } from "@shared/pdf-export";
+import { renderItineraryText } from "@shared/itinerary-text";
+import { checkSchedule } from "@shared/schedule-check";
+import { optimizeDayRoute } from "@shared/route-optimizer";
+import { formatMoneyIn } from "@shared/currency";
+import { type MapConfig } from "@shared/map";
 import { z } from "zod";
 
+// How often the generation stream reads the job for new days
+const GENERATION_STREAM_POLL_MS = 1000;
+
+// For edits that only make sense against the copy the client was looking at
+function isStaleEdit(itinerary: Itinerary, expectedUpdatedAt: Date) {
+  return itinerary.updatedAt.getTime() !== expectedUpdatedAt.getTime();
+}
+
+function sendStaleEdit(res: Response) {
+  res.status(409).json({
+    message:
+      "The itinerary has changed since you loaded it. Check the latest version and try again.",
+  });
+}
+
+// AI output that still fails validation after the repair prompt is a 422
+function sendAiError(res: Response, error: unknown, message: string) {
+  if (error instanceof ItineraryValidationError) {
+    return res
+      .status(422)
+      .json({ message: error.message, errors: error.issues });
+  }
+  res.status(500).json({ message });
+}
+
+// MAP_TILES_DIR serves a local tile set at /tiles for offline deployments;
+// MAP_TILE_URL points at any other XYZ tile server
+function getMapConfig(): MapConfig {
+  return {
+    tileUrl:
+      process.env.MAP_TILE_URL ||
+      (process.env.MAP_TILES_DIR
+        ? "/tiles/{z}/{x}/{y}.png"
+        : "https://tile.openstreetmap.org/{z}/{x}/{y}.png"),
+    attribution:
+      process.env.MAP_TILE_ATTRIBUTION || "© OpenStreetMap contributors",
+    maxZoom: parseInt(process.env.MAP_MAX_ZOOM || "19"),
+  };
+}
+
+// Sends a generated file that browsers save rather than display. Text bodies
+// are UTF-8; binary ones are sent as they are.
+function sendDownload(
+  res: Response,
+  contentType: string,
+  filename: string,
+  body: string | Buffer
+) {
+  res.setHeader(
+    "Content-Type",
+    typeof body === "string" ? `${contentType}; charset=utf-8` : contentType
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(body);
+}
+
+// Expenses can only be paid by and split between people on the trip
+async function isTripParty(itinerary: Itinerary, userIds: number[]) {
+  const members = await storage.getItineraryMembers(itinerary.id);
+  const party = new Set([
+    itinerary.userId,
+    ...members.map((member) => member.userId),
+  ]);
+  return userIds.every((userId) => party.has(userId));
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
 
   // Itinerary routes
   app.get("/api/itineraries", async (req, res) => {
@@ -32,14 +153,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const itinerary = await storage.getItinerary(parseInt(req.params.id));
-      if (!itinerary) {
-        return res.status(404).json({ message: "Itinerary not found" });
-      }
-
-      if (itinerary.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
 
       res.json(itinerary);
     } catch (error) {
@@ -48,6 +168,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Overlapping times, transfers that can't be made and over-long days
+  app.get("/api/itineraries/:id/schedule-check", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const content = parseStoredItinerary(itinerary.generatedContent);
+      if (!content) {
+        return res
+          .status(409)
+          .json({ message: "Generate the itinerary before checking it" });
+      }
+
+      res.json({ warnings: checkSchedule(content, itinerary.transport) });
+    } catch (error) {
+      console.error("Error checking itinerary schedule:", error);
+      res.status(500).json({ message: "Failed to check schedule" });
+    }
+  });
+
   app.post("/api/itineraries", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
@@ -71,67 +220,326 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Portable backup of a trip, restored with POST /api/itineraries/import
+  app.get("/api/itineraries/:id/export.json", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      sendDownload(
+        res,
+        "application/json",
+        `itinerary-${itinerary.id}.json`,
+        JSON.stringify(toItineraryExport(itinerary), null, 2)
+      );
+    } catch (error) {
+      console.error("Error exporting itinerary:", error);
+      res.status(500).json({ message: "Failed to export itinerary" });
+    }
+  });
+
+  // Imports always create a new trip owned by the importing user
+  app.post("/api/itineraries/import", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const {
+        itinerary: { status, generatedContent, ...metadata },
+      } = itineraryExportSchema.parse(req.body);
+
+      const created = await storage.createItinerary({
+        ...metadata,
+        userId: req.user!.id,
+      });
+      const itinerary =
+        generatedContent || status !== "draft"
+          ? await storage.updateItinerary(
+              created.id,
+              { generatedContent, status },
+              { authorId: req.user!.id, reason: "import" }
+            )
+          : created;
+      if (generatedContent) queueGeocoding(created.id);
+
+      res.status(201).json(itinerary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error importing itinerary:", error);
+      res.status(500).json({ message: "Failed to import itinerary" });
+    }
+  });
+
   app.post("/api/itineraries/:id/generate", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
 
     try {
-      const itinerary = await storage.getItinerary(parseInt(req.params.id));
-      if (!itinerary) {
-        return res.status(404).json({ message: "Itinerary not found" });
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      // Don't queue a second job while one is still pending
+      const latestJob = await storage.getLatestGenerationJob(itinerary.id);
+      if (
+        latestJob &&
+        (latestJob.status === "queued" || latestJob.status === "running")
+      ) {
+        return res.status(202).json(latestJob);
       }
 
-      if (itinerary.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const job = await storage.createGenerationJob(itinerary.id, req.user!.id);
+      publishGenerationJob(job);
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error queueing itinerary generation:", error);
+      res.status(500).json({ message: "Failed to queue generation" });
+    }
+  });
+
+  app.get("/api/itineraries/:id/generation-job", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const job = await storage.getLatestGenerationJob(itinerary.id);
+      res.json(job ?? null);
+    } catch (error) {
+      console.error("Error fetching generation job:", error);
+      res.status(500).json({ message: "Failed to fetch generation job" });
+    }
+  });
+
+  // Streams the latest generation job as Server-Sent Events: each finished
+  // day as a "day" event, then "complete" with the saved itinerary or "error".
+  // The job is read back from storage, so this follows it whichever worker
+  // runs it.
+  app.get("/api/itineraries/:id/generate/stream", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    let job: GenerationJob | undefined;
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+      job = await storage.getLatestGenerationJob(itinerary.id);
+    } catch (error) {
+      console.error("Error fetching generation job:", error);
+      return res
+        .status(500)
+        .json({ message: "Failed to fetch generation job" });
+    }
+
+    if (!job) {
+      return res.status(404).json({ message: "Generation job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
       }
+    };
 
-      // Generate itinerary using OpenAI
-      const generatedContent = await generateItinerary({
-        location: itinerary.location,
-        startDate: itinerary.startDate,
-        endDate: itinerary.endDate,
-        tripType: itinerary.tripType,
-        transport: itinerary.transport,
-        accommodation: itinerary.accommodation,
-        dining: itinerary.dining,
-        ageGroup: itinerary.ageGroup,
-        interests: itinerary.interests,
-      });
+    let closed = false;
+    req.on("close", () => {
+      closed = true;
+    });
+
+    try {
+      let sentDays = 0;
+      while (!closed) {
+        const current = await storage.getGenerationJob(job.id);
+        if (!current) {
+          sendEvent("error", {
+            status: 404,
+            message: "Generation job not found",
+          });
+          break;
+        }
+
+        const days = current.partialDays ?? [];
+        days.slice(sentDays).forEach((day) => sendEvent("day", day));
+        sentDays = Math.max(sentDays, days.length);
 
-      // Update itinerary with generated content
-      const updatedItinerary = await storage.updateItinerary(itinerary.id, {
-        generatedContent: generatedContent as any,
-        status: "generated",
+        if (current.status === "done") {
+          sendEvent(
+            "complete",
+            await storage.getItinerary(current.itineraryId)
+          );
+          break;
+        }
+        if (current.status === "failed") {
+          sendEvent("error", {
+            status: current.errorDetails ? 422 : 500,
+            message: current.error ?? "Failed to generate itinerary",
+            errors: current.errorDetails ?? undefined,
+          });
+          break;
+        }
+
+        await new Promise((resolve) =>
+          setTimeout(resolve, GENERATION_STREAM_POLL_MS)
+        );
+      }
+    } catch (error) {
+      console.error("Error streaming generation job:", error);
+      sendEvent("error", {
+        status: 500,
+        message: "Failed to stream generation job",
       });
+    } finally {
+      res.end();
+    }
+  });
 
-      res.json(updatedItinerary);
+  app.get("/api/generation-jobs/:jobId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const job = await storage.getGenerationJob(parseInt(req.params.jobId));
+      if (!job) {
+        return res.status(404).json({ message: "Generation job not found" });
+      }
+
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        job.itineraryId,
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      res.json(job);
     } catch (error) {
-      console.error("Error generating itinerary:", error);
-      res.status(500).json({ message: "Failed to generate itinerary" });
+      console.error("Error fetching generation job:", error);
+      res.status(500).json({ message: "Failed to fetch generation job" });
     }
   });
 
-  app.put("/api/itineraries/:id", async (req, res) => {
+  app.post("/api/generation-jobs/:jobId/retry", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
 
     try {
-      const itinerary = await storage.getItinerary(parseInt(req.params.id));
-      if (!itinerary) {
-        return res.status(404).json({ message: "Itinerary not found" });
+      const job = await storage.getGenerationJob(parseInt(req.params.jobId));
+      if (!job) {
+        return res.status(404).json({ message: "Generation job not found" });
       }
 
-      if (itinerary.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        job.itineraryId,
+        "editor"
+      );
+      if (!itinerary) return;
+
+      if (job.status !== "failed") {
+        return res
+          .status(409)
+          .json({ message: "Only failed jobs can be retried" });
       }
 
-      const validatedData = updateItinerarySchema.partial().parse(req.body);
+      const requeuedJob = await storage.updateGenerationJob(job.id, {
+        status: "queued",
+        error: null,
+        errorDetails: null,
+        partialDays: null,
+        startedAt: null,
+        finishedAt: null,
+      });
+      publishGenerationJob(requeuedJob);
+      res.status(202).json(requeuedJob);
+    } catch (error) {
+      console.error("Error retrying generation job:", error);
+      res.status(500).json({ message: "Failed to retry generation job" });
+    }
+  });
+
+  app.post("/api/itineraries/:id/days/:day/regenerate", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const content = parseStoredItinerary(itinerary.generatedContent);
+      const dayNumber = parseInt(req.params.day);
+      const day = content?.days.find((d) => d.day === dayNumber);
+      if (!content || !day) {
+        return res.status(404).json({ message: "Day not found" });
+      }
+
+      const { instructions } = regenerateDaySchema.parse(req.body ?? {});
+      const newDay = await regenerateDay(
+        toItineraryRequest(itinerary),
+        content,
+        day,
+        instructions
+      );
+
       const updatedItinerary = await storage.updateItinerary(
         itinerary.id,
-        validatedData
+        {
+          generatedContent: {
+            ...content,
+            days: content.days.map((d) => (d.day === dayNumber ? newDay : d)),
+          },
+        },
+        { authorId: req.user!.id, reason: "generate" }
       );
+      publishItineraryUpdate(updatedItinerary);
+      queueGeocoding(itinerary.id);
 
       res.json(updatedItinerary);
     } catch (error) {
@@ -140,32 +548,1338 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .status(400)
           .json({ message: "Invalid input", errors: error.errors });
       }
-      console.error("Error updating itinerary:", error);
-      res.status(500).json({ message: "Failed to update itinerary" });
+      console.error("Error regenerating day:", error);
+      sendAiError(res, error, "Failed to regenerate day");
     }
   });
 
-  app.delete("/api/itineraries/:id", async (req, res) => {
+  app.post(
+    "/api/itineraries/:id/days/:day/activities/:index/alternatives",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const content = parseStoredItinerary(itinerary.generatedContent);
+        const day = content?.days.find(
+          (d) => d.day === parseInt(req.params.day)
+        );
+        const activity = day?.activities[parseInt(req.params.index)];
+        if (!content || !day || !activity) {
+          return res.status(404).json({ message: "Activity not found" });
+        }
+
+        const alternatives = await suggestActivityAlternatives(
+          toItineraryRequest(itinerary),
+          content,
+          day,
+          activity
+        );
+        res.json({ alternatives });
+      } catch (error) {
+        console.error("Error suggesting alternatives:", error);
+        sendAiError(res, error, "Failed to suggest alternatives");
+      }
+    }
+  );
+
+  app.post(
+    "/api/itineraries/:id/days/:day/activities/:index/swap",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const content = parseStoredItinerary(itinerary.generatedContent);
+        const dayNumber = parseInt(req.params.day);
+        const index = parseInt(req.params.index);
+        const day = content?.days.find((d) => d.day === dayNumber);
+        const original = day?.activities[index];
+        if (!content || !day || !original) {
+          return res.status(404).json({ message: "Activity not found" });
+        }
+
+        const { activity } = swapActivitySchema.parse(req.body);
+        const generatedContent = {
+          ...content,
+          days: content.days.map((d) =>
+            d.day === dayNumber
+              ? {
+                  ...d,
+                  activities: d.activities.map((a, i) =>
+                    i === index ? { ...activity, period: original.period } : a
+                  ),
+                }
+              : d
+          ),
+        };
+        const updatedItinerary = await storage.updateItinerary(
+          itinerary.id,
+          { generatedContent },
+          { authorId: req.user!.id, reason: "edit" }
+        );
+        publishItineraryUpdate(updatedItinerary);
+        queueGeocoding(itinerary.id);
+
+        res.json(updatedItinerary);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid input", errors: error.errors });
+        }
+        console.error("Error swapping activity:", error);
+        res.status(500).json({ message: "Failed to swap activity" });
+      }
+    }
+  );
+
+  // Manual activity editing
+  app.post("/api/itineraries/:id/days/:day/activities", async (req, res) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ message: "Authentication required" });
     }
 
     try {
-      const itinerary = await storage.getItinerary(parseInt(req.params.id));
-      if (!itinerary) {
-        return res.status(404).json({ message: "Itinerary not found" });
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const { activity, index } = addActivitySchema.parse(req.body);
+      const stored = parseStoredItinerary(itinerary.generatedContent);
+      const content =
+        stored &&
+        insertActivity(stored, parseInt(req.params.day), activity, index);
+      if (!content) {
+        return res.status(404).json({ message: "Day not found" });
+      }
+
+      const updatedItinerary = await storage.updateItinerary(
+        itinerary.id,
+        { generatedContent: content },
+        { authorId: req.user!.id, reason: "edit" }
+      );
+      publishItineraryUpdate(updatedItinerary);
+      queueGeocoding(itinerary.id);
+
+      res.status(201).json(updatedItinerary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
       }
+      console.error("Error adding activity:", error);
+      res.status(500).json({ message: "Failed to add activity" });
+    }
+  });
 
-      if (itinerary.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Access denied" });
+  app.put(
+    "/api/itineraries/:id/days/:day/activities/:index",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
       }
 
-      await storage.deleteItinerary(itinerary.id);
-      res.status(204).send();
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const { activity, expectedUpdatedAt } = updateActivitySchema.parse(
+          req.body
+        );
+        if (isStaleEdit(itinerary, expectedUpdatedAt)) {
+          return sendStaleEdit(res);
+        }
+        const stored = parseStoredItinerary(itinerary.generatedContent);
+        const content =
+          stored &&
+          replaceActivity(
+            stored,
+            {
+              day: parseInt(req.params.day),
+              index: parseInt(req.params.index),
+            },
+            activity
+          );
+        if (!content) {
+          return res.status(404).json({ message: "Activity not found" });
+        }
+
+        const updatedItinerary = await storage.updateItinerary(
+          itinerary.id,
+          { generatedContent: content },
+          { authorId: req.user!.id, reason: "edit" }
+        );
+        publishItineraryUpdate(updatedItinerary);
+        queueGeocoding(itinerary.id);
+
+        res.json(updatedItinerary);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid input", errors: error.errors });
+        }
+        console.error("Error updating activity:", error);
+        res.status(500).json({ message: "Failed to update activity" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/itineraries/:id/days/:day/activities/:index",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const { expectedUpdatedAt } = deleteActivitySchema.parse(req.body);
+        if (isStaleEdit(itinerary, expectedUpdatedAt)) {
+          return sendStaleEdit(res);
+        }
+        const stored = parseStoredItinerary(itinerary.generatedContent);
+        const content =
+          stored &&
+          removeActivity(stored, {
+            day: parseInt(req.params.day),
+            index: parseInt(req.params.index),
+          });
+        if (!content) {
+          return res.status(404).json({ message: "Activity not found" });
+        }
+
+        const updatedItinerary = await storage.updateItinerary(
+          itinerary.id,
+          { generatedContent: content },
+          { authorId: req.user!.id, reason: "edit" }
+        );
+        publishItineraryUpdate(updatedItinerary);
+
+        res.json(updatedItinerary);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid input", errors: error.errors });
+        }
+        console.error("Error deleting activity:", error);
+        res.status(500).json({ message: "Failed to delete activity" });
+      }
+    }
+  );
+
+  // Reorders within a day or moves an activity to another day
+  app.post("/api/itineraries/:id/activities/move", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const { from, to, expectedUpdatedAt } = moveActivitySchema.parse(
+        req.body
+      );
+      if (isStaleEdit(itinerary, expectedUpdatedAt)) {
+        return sendStaleEdit(res);
+      }
+      const stored = parseStoredItinerary(itinerary.generatedContent);
+      const content = stored && moveActivity(stored, from, to);
+      if (!content) {
+        return res.status(404).json({ message: "Activity not found" });
+      }
+
+      const updatedItinerary = await storage.updateItinerary(
+        itinerary.id,
+        { generatedContent: content },
+        { authorId: req.user!.id, reason: "edit" }
+      );
+      publishItineraryUpdate(updatedItinerary);
+
+      res.json(updatedItinerary);
     } catch (error) {
-      console.error("Error deleting itinerary:", error);
-      res.status(500).json({ message: "Failed to delete itinerary" });
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error moving activity:", error);
+      res.status(500).json({ message: "Failed to move activity" });
+    }
+  });
+
+  // Reorders a day to shorten the distance between its activities
+  app.post(
+    "/api/itineraries/:id/days/:day/optimize-route",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const { expectedUpdatedAt } = optimizeRouteSchema.parse(req.body);
+        if (isStaleEdit(itinerary, expectedUpdatedAt)) {
+          return sendStaleEdit(res);
+        }
+        const content = parseStoredItinerary(itinerary.generatedContent);
+        const dayNumber = parseInt(req.params.day);
+        const day = content?.days.find((d) => d.day === dayNumber);
+        if (!content || !day) {
+          return res.status(404).json({ message: "Day not found" });
+        }
+
+        const { activities } = optimizeDayRoute(day, itinerary.transport);
+        const updatedItinerary = await storage.updateItinerary(
+          itinerary.id,
+          {
+            generatedContent: {
+              ...content,
+              days: content.days.map((d) =>
+                d.day === dayNumber ? { ...d, activities } : d
+              ),
+            },
+          },
+          { authorId: req.user!.id, reason: "edit" }
+        );
+        publishItineraryUpdate(updatedItinerary);
+
+        res.json(updatedItinerary);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res
+            .status(400)
+            .json({ message: "Invalid input", errors: error.errors });
+        }
+        console.error("Error optimizing route:", error);
+        res.status(500).json({ message: "Failed to optimize route" });
+      }
+    }
+  );
+
+  // Refinement chat
+  app.get("/api/itineraries/:id/messages", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const messages = await storage.getItineraryMessages(itinerary.id);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  app.post("/api/itineraries/:id/messages", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
     }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const currentContent = parseStoredItinerary(itinerary.generatedContent);
+      if (!currentContent) {
+        return res
+          .status(409)
+          .json({ message: "Generate the itinerary before refining it" });
+      }
+
+      const { content } = createItineraryMessageSchema.parse(req.body);
+      const baseVersionId = await storage.getLatestItineraryVersionId(
+        itinerary.id
+      );
+      const userMessage = await storage.createItineraryMessage({
+        itineraryId: itinerary.id,
+        userId: req.user!.id,
+        role: "user",
+        content,
+      });
+      publishItineraryEvent({
+        type: "messages.changed",
+        itineraryId: itinerary.id,
+      });
+
+      const history = await storage.getItineraryMessages(itinerary.id);
+      const result = await refineItinerary(
+        toItineraryRequest(itinerary),
+        currentContent,
+        history.map((message) => ({
+          role: message.role === "assistant" ? "assistant" : "user",
+          content: message.content,
+        }))
+      );
+
+      const assistantMessage = await storage.createItineraryMessage({
+        itineraryId: itinerary.id,
+        role: "assistant",
+        content: result.reply,
+        proposedContent: result.itinerary,
+        proposalStatus: result.itinerary ? "pending" : null,
+        baseVersionId,
+      });
+
+      // Older proposals were based on content this one supersedes
+      if (result.itinerary) {
+        await storage.dismissPendingProposals(
+          itinerary.id,
+          assistantMessage.id
+        );
+      }
+      publishItineraryEvent({
+        type: "messages.changed",
+        itineraryId: itinerary.id,
+      });
+
+      res.status(201).json([userMessage, assistantMessage]);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error refining itinerary:", error);
+      sendAiError(res, error, "Failed to refine itinerary");
+    }
+  });
+
+  app.post(
+    "/api/itineraries/:id/messages/:messageId/:decision(accept|dismiss)",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const message = await storage.getItineraryMessage(
+          parseInt(req.params.messageId)
+        );
+        if (!message || message.itineraryId !== itinerary.id) {
+          return res.status(404).json({ message: "Message not found" });
+        }
+
+        if (message.proposalStatus !== "pending" || !message.proposedContent) {
+          return res
+            .status(409)
+            .json({ message: "This proposal is no longer pending" });
+        }
+
+        if (req.params.decision === "dismiss") {
+          await storage.updateItineraryMessage(message.id, {
+            proposalStatus: "dismissed",
+          });
+          publishItineraryEvent({
+            type: "messages.changed",
+            itineraryId: itinerary.id,
+          });
+          return res.json(itinerary);
+        }
+
+        // Accepting would overwrite edits made after the proposal was written
+        const latestVersionId = await storage.getLatestItineraryVersionId(
+          itinerary.id
+        );
+        if (latestVersionId !== message.baseVersionId) {
+          return res.status(409).json({
+            message:
+              "The itinerary has changed since this proposal was made. Ask again for a proposal based on the latest version.",
+          });
+        }
+
+        const updatedItinerary = await storage.updateItinerary(
+          itinerary.id,
+          { generatedContent: message.proposedContent },
+          { authorId: req.user!.id, reason: "refine" }
+        );
+        publishItineraryUpdate(updatedItinerary);
+        queueGeocoding(itinerary.id);
+        await storage.updateItineraryMessage(message.id, {
+          proposalStatus: "accepted",
+        });
+        publishItineraryEvent({
+          type: "messages.changed",
+          itineraryId: itinerary.id,
+        });
+
+        res.json(updatedItinerary);
+      } catch (error) {
+        console.error("Error applying proposal:", error);
+        res.status(500).json({ message: "Failed to apply proposal" });
+      }
+    }
+  );
+
+  app.put("/api/itineraries/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const validatedData = updateItinerarySchema.partial().parse(req.body);
+      const updatedItinerary = await storage.updateItinerary(
+        itinerary.id,
+        validatedData,
+        { authorId: req.user!.id, reason: "edit" }
+      );
+      publishItineraryUpdate(updatedItinerary);
+
+      res.json(updatedItinerary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating itinerary:", error);
+      res.status(500).json({ message: "Failed to update itinerary" });
+    }
+  });
+
+  // Version history
+  app.get("/api/itineraries/:id/versions", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const versions = await storage.getItineraryVersions(itinerary.id);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching versions:", error);
+      res.status(500).json({ message: "Failed to fetch versions" });
+    }
+  });
+
+  app.post(
+    "/api/itineraries/:id/versions/:versionId/restore",
+    async (req, res) => {
+      if (!req.isAuthenticated()) {
+        return res.status(401).json({ message: "Authentication required" });
+      }
+
+      try {
+        const itinerary = await authorizeItinerary(
+          req,
+          res,
+          parseInt(req.params.id),
+          "editor"
+        );
+        if (!itinerary) return;
+
+        const version = await storage.getItineraryVersion(
+          parseInt(req.params.versionId)
+        );
+        if (!version || version.itineraryId !== itinerary.id) {
+          return res.status(404).json({ message: "Version not found" });
+        }
+
+        // Restoring is itself a new version, so it can be undone too
+        const updatedItinerary = await storage.updateItinerary(
+          itinerary.id,
+          {
+            title: version.title,
+            description: version.description,
+            generatedContent: version.generatedContent,
+          },
+          { authorId: req.user!.id, reason: "restore" }
+        );
+        publishItineraryUpdate(updatedItinerary);
+        // Versions don't keep coordinates found after they were saved
+        queueGeocoding(itinerary.id);
+
+        res.json(updatedItinerary);
+      } catch (error) {
+        console.error("Error restoring version:", error);
+        res.status(500).json({ message: "Failed to restore version" });
+      }
+    }
+  );
+
+  // Collaborators
+  app.get("/api/itineraries/:id/members", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const owner = await storage.getUser(itinerary.userId);
+      const members = await storage.getItineraryMembers(itinerary.id);
+      const collaborators: ItineraryCollaborator[] = [
+        {
+          userId: itinerary.userId,
+          username: owner?.username ?? "",
+          role: "owner",
+        },
+        ...members,
+      ];
+      res.json(collaborators);
+    } catch (error) {
+      console.error("Error fetching members:", error);
+      res.status(500).json({ message: "Failed to fetch members" });
+    }
+  });
+
+  app.post("/api/itineraries/:id/members", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "owner"
+      );
+      if (!itinerary) return;
+
+      const { username, role } = inviteItineraryMemberSchema.parse(req.body);
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (
+        user.id === itinerary.userId ||
+        (await storage.getItineraryMember(itinerary.id, user.id))
+      ) {
+        return res
+          .status(409)
+          .json({ message: "User already has access to this itinerary" });
+      }
+
+      await storage.addItineraryMember({
+        itineraryId: itinerary.id,
+        userId: user.id,
+        role,
+        invitedBy: req.user!.id,
+      });
+      publishItineraryEvent({
+        type: "members.changed",
+        itineraryId: itinerary.id,
+      });
+
+      const collaborator: ItineraryCollaborator = {
+        userId: user.id,
+        username: user.username,
+        role,
+      };
+      res.status(201).json(collaborator);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error inviting member:", error);
+      res.status(500).json({ message: "Failed to invite member" });
+    }
+  });
+
+  app.patch("/api/itineraries/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "owner"
+      );
+      if (!itinerary) return;
+
+      const { role } = updateItineraryMemberSchema.parse(req.body);
+      const member = await storage.updateItineraryMember(
+        itinerary.id,
+        parseInt(req.params.userId),
+        role
+      );
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      publishItineraryEvent({
+        type: "members.changed",
+        itineraryId: itinerary.id,
+      });
+
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating member:", error);
+      res.status(500).json({ message: "Failed to update member" });
+    }
+  });
+
+  app.delete("/api/itineraries/:id/members/:userId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      // Members may always remove themselves; removing others needs the owner
+      const memberId = parseInt(req.params.userId);
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        memberId === req.user!.id ? "viewer" : "owner"
+      );
+      if (!itinerary) return;
+
+      const removed = await storage.removeItineraryMember(
+        itinerary.id,
+        memberId
+      );
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      revokeSubscriptions(itinerary.id, memberId);
+      publishItineraryEvent({
+        type: "members.changed",
+        itineraryId: itinerary.id,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing member:", error);
+      res.status(500).json({ message: "Failed to remove member" });
+    }
+  });
+
+  // Share links
+  app.get("/api/itineraries/:id/shares", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "owner"
+      );
+      if (!itinerary) return;
+
+      const shares = await storage.getItineraryShares(itinerary.id);
+      res.json(shares);
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ message: "Failed to fetch share links" });
+    }
+  });
+
+  app.post("/api/itineraries/:id/shares", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "owner"
+      );
+      if (!itinerary) return;
+
+      const { expiresInDays } = createItineraryShareSchema.parse(req.body);
+      const share = await storage.createItineraryShare({
+        itineraryId: itinerary.id,
+        token: randomBytes(24).toString("base64url"),
+        createdBy: req.user!.id,
+        expiresAt: expiresInDays
+          ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+          : null,
+      });
+
+      res.status(201).json(share);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating share link:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+
+  app.delete("/api/itineraries/:id/shares/:shareId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "owner"
+      );
+      if (!itinerary) return;
+
+      const share = await storage.getItineraryShare(
+        parseInt(req.params.shareId)
+      );
+      if (!share || share.itineraryId !== itinerary.id) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      await storage.revokeItineraryShare(share.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  app.get("/api/itineraries/:id/calendar.ics", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      sendDownload(
+        res,
+        "text/calendar",
+        `itinerary-${itinerary.id}.ics`,
+        buildCalendar(itinerary.title, [itinerary])
+      );
+    } catch (error) {
+      console.error("Error exporting calendar:", error);
+      res.status(500).json({ message: "Failed to export calendar" });
+    }
+  });
+
+  // Rendered here rather than in the browser so emails and API clients can
+  // get the same document
+  app.get("/api/itineraries/:id/export.pdf", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const options = pdfExportOptionsSchema.parse(req.query);
+      const content = parseStoredItinerary(itinerary.generatedContent);
+      if (!content) {
+        return res
+          .status(409)
+          .json({ message: "Generate the itinerary before exporting it" });
+      }
+
+      const rates = await storage.getExchangeRates();
+      const pdf = renderItineraryPdf(itinerary, content, options, (money) =>
+        formatMoneyIn(money, req.user!.currency, rates)
+      );
+      sendDownload(res, "application/pdf", pdfFilename(content), pdf);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error exporting PDF:", error);
+      res.status(500).json({ message: "Failed to export PDF" });
+    }
+  });
+
+  // Markdown and plain text for pasting into notes apps and chats
+  app.get("/api/itineraries/:id/export.:format(md|txt)", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const content = parseStoredItinerary(itinerary.generatedContent);
+      if (!content) {
+        return res
+          .status(409)
+          .json({ message: "Generate the itinerary before exporting it" });
+      }
+
+      const markdown = req.params.format === "md";
+      sendDownload(
+        res,
+        markdown ? "text/markdown" : "text/plain",
+        `itinerary-${itinerary.id}.${req.params.format}`,
+        renderItineraryText(content, markdown ? "markdown" : "text")
+      );
+    } catch (error) {
+      console.error("Error exporting itinerary text:", error);
+      res.status(500).json({ message: "Failed to export itinerary" });
+    }
+  });
+
+  // Waypoints and per-day routes for offline map apps
+  app.get("/api/itineraries/:id/route.:format(gpx|kml)", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      const filename = `itinerary-${itinerary.id}.${req.params.format}`;
+      if (req.params.format === "gpx") {
+        sendDownload(res, "application/gpx+xml", filename, buildGpx(itinerary));
+      } else {
+        sendDownload(
+          res,
+          "application/vnd.google-earth.kml+xml",
+          filename,
+          buildKml(itinerary)
+        );
+      }
+    } catch (error) {
+      console.error("Error exporting route:", error);
+      res.status(500).json({ message: "Failed to export route" });
+    }
+  });
+
+  // Expenses
+  app.get("/api/itineraries/:id/expenses", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "viewer"
+      );
+      if (!itinerary) return;
+
+      res.json(await storage.getItineraryExpenses(itinerary.id));
+    } catch (error) {
+      console.error("Error fetching expenses:", error);
+      res.status(500).json({ message: "Failed to fetch expenses" });
+    }
+  });
+
+  app.post("/api/itineraries/:id/expenses", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const expense = itineraryExpenseSchema.parse(req.body);
+      const participantIds = Array.from(new Set(expense.participantIds));
+      if (
+        !(await isTripParty(itinerary, [expense.paidBy, ...participantIds]))
+      ) {
+        return res.status(400).json({
+          message: "Expenses can only involve collaborators on this trip",
+        });
+      }
+
+      const created = await storage.createItineraryExpense({
+        ...expense,
+        participantIds,
+        itineraryId: itinerary.id,
+        createdBy: req.user!.id,
+      });
+      publishItineraryEvent({
+        type: "expenses.changed",
+        itineraryId: itinerary.id,
+      });
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error creating expense:", error);
+      res.status(500).json({ message: "Failed to create expense" });
+    }
+  });
+
+  app.put("/api/itineraries/:id/expenses/:expenseId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const existing = await storage.getItineraryExpense(
+        parseInt(req.params.expenseId)
+      );
+      if (!existing || existing.itineraryId !== itinerary.id) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      const expense = itineraryExpenseSchema.parse(req.body);
+      const participantIds = Array.from(new Set(expense.participantIds));
+      if (
+        !(await isTripParty(itinerary, [expense.paidBy, ...participantIds]))
+      ) {
+        return res.status(400).json({
+          message: "Expenses can only involve collaborators on this trip",
+        });
+      }
+
+      const updated = await storage.updateItineraryExpense(existing.id, {
+        ...expense,
+        participantIds,
+        day: expense.day ?? null,
+        activity: expense.activity ?? null,
+      });
+      publishItineraryEvent({
+        type: "expenses.changed",
+        itineraryId: itinerary.id,
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating expense:", error);
+      res.status(500).json({ message: "Failed to update expense" });
+    }
+  });
+
+  app.delete("/api/itineraries/:id/expenses/:expenseId", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "editor"
+      );
+      if (!itinerary) return;
+
+      const expense = await storage.getItineraryExpense(
+        parseInt(req.params.expenseId)
+      );
+      if (!expense || expense.itineraryId !== itinerary.id) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+
+      await storage.deleteItineraryExpense(expense.id);
+      publishItineraryEvent({
+        type: "expenses.changed",
+        itineraryId: itinerary.id,
+      });
+
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting expense:", error);
+      res.status(500).json({ message: "Failed to delete expense" });
+    }
+  });
+
+  // Public read-only view of a shared itinerary, no login required
+  app.get("/api/shared/:token", async (req, res) => {
+    try {
+      const share = await storage.getItineraryShareByToken(req.params.token);
+      if (!share || share.revokedAt) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      if (share.expiresAt && share.expiresAt < new Date()) {
+        return res.status(410).json({ message: "Share link has expired" });
+      }
+
+      const itinerary = await storage.getItinerary(share.itineraryId);
+      if (!itinerary) {
+        return res.status(404).json({ message: "Itinerary not found" });
+      }
+
+      // Owner details stay private
+      const { userId, ...sharedItinerary } = itinerary;
+      res.json(sharedItinerary);
+    } catch (error) {
+      console.error("Error fetching shared itinerary:", error);
+      res.status(500).json({ message: "Failed to fetch shared itinerary" });
+    }
+  });
+
+  app.delete("/api/itineraries/:id", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const itinerary = await authorizeItinerary(
+        req,
+        res,
+        parseInt(req.params.id),
+        "owner"
+      );
+      if (!itinerary) return;
+
+      await storage.deleteItinerary(itinerary.id);
+      publishItineraryEvent({
+        type: "itinerary.deleted",
+        itineraryId: itinerary.id,
+      });
+      revokeSubscriptions(itinerary.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting itinerary:", error);
+      res.status(500).json({ message: "Failed to delete itinerary" });
+    }
+  });
+
+  // Preferences of the signed-in user, such as their home currency
+  app.patch("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const validatedData = updateUserSchema.parse(req.body);
+      const user = await storage.updateUser(req.user!.id, validatedData);
+      res.json(user);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res
+          .status(400)
+          .json({ message: "Invalid input", errors: error.errors });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Secret webcal feed of the user's saved itineraries. Creating a new token
+  // stops the old feed URL from working.
+  app.post("/api/user/calendar-feed", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const user = await storage.updateUser(req.user!.id, {
+        calendarToken: randomBytes(24).toString("base64url"),
+      });
+      res.json(user);
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
+    }
+  });
+
+  app.delete("/api/user/calendar-feed", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const user = await storage.updateUser(req.user!.id, {
+        calendarToken: null,
+      });
+      res.json(user);
+    } catch (error) {
+      console.error("Error disabling calendar feed:", error);
+      res.status(500).json({ message: "Failed to disable calendar feed" });
+    }
+  });
+
+  // Calendar apps poll this without a session, so the token is the only auth
+  app.get("/api/calendar/:token.ics", async (req, res) => {
+    try {
+      const user = await storage.getUserByCalendarToken(req.params.token);
+      if (!user) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const itineraries = await storage.getItinerariesByUserId(user.id);
+      sendDownload(
+        res,
+        "text/calendar",
+        "wanderlust.ics",
+        buildCalendar(
+          "Wanderlust trips",
+          itineraries.filter((itinerary) => itinerary.status === "saved")
+        )
+      );
+    } catch (error) {
+      console.error("Error building calendar feed:", error);
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  // Locally stored rates for showing costs in the user's currency
+  app.get("/api/exchange-rates", async (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      res.json(await storage.getExchangeRates());
+    } catch (error) {
+      console.error("Error fetching exchange rates:", error);
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  if (process.env.MAP_TILES_DIR) {
+    app.use("/tiles", express.static(process.env.MAP_TILES_DIR));
+  }
+
+  app.get("/api/map-config", (_req, res) => {
+    res.json(getMapConfig());
   });
 
   // Location suggestions route
@@ -212,5 +1926,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer, sessionMiddleware);
   return httpServer;
 }
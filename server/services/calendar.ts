@@ -0,0 +1,103 @@
+import { type Itinerary } from "@shared/schema";
+import { parseStoredItinerary, type Activity } from "@shared/itinerary";
+import { activityMinutes } from "@shared/activity-time";
+
+// Builds iCalendar (RFC 5545) files from itinerary activities. Times are
+// written as floating local times, so an activity at 10:00 AM shows at 10:00
+// in whatever timezone the traveller's calendar is in at the destination.
+
+const DEFAULT_DURATION_MINUTES = 60;
+
+// Escapes TEXT values: backslashes, separators and line breaks
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Content lines longer than 75 octets continue on lines starting with a space
+function foldLine(line: string) {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of Array.from(line)) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+const pad = (value: number) => value.toString().padStart(2, "0");
+
+const formatDate = (date: Date) =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+
+const formatDateTime = (date: Date) =>
+  `${formatDate(date)}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+
+const formatTimestamp = (date: Date) => `${formatDateTime(date)}Z`;
+
+// Activities without a readable time become all-day events
+function eventTimes(date: string, activity: Activity) {
+  const start = new Date(`${date}T00:00:00Z`);
+  const minutes = activityMinutes(activity);
+  if (!minutes) {
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return [
+      `DTSTART;VALUE=DATE:${formatDate(start)}`,
+      `DTEND;VALUE=DATE:${formatDate(end)}`,
+    ];
+  }
+
+  start.setUTCMinutes(minutes.start);
+  const length =
+    (minutes.end !== null && minutes.end - minutes.start) ||
+    DEFAULT_DURATION_MINUTES;
+  const end = new Date(start.getTime() + length * 60 * 1000);
+  return [`DTSTART:${formatDateTime(start)}`, `DTEND:${formatDateTime(end)}`];
+}
+
+function itineraryEvents(itinerary: Itinerary) {
+  const content = parseStoredItinerary(itinerary.generatedContent);
+  if (!content) return [];
+
+  const stamp = formatTimestamp(itinerary.updatedAt);
+  return content.days.flatMap((day) =>
+    day.activities.map((activity, index) => {
+      const description = [activity.notes, `Day ${day.day}: ${day.title}`]
+        .filter(Boolean)
+        .join("\n\n");
+      return [
+        "BEGIN:VEVENT",
+        `UID:itinerary-${itinerary.id}-day-${day.day}-${index}@wanderlust`,
+        `DTSTAMP:${stamp}`,
+        ...eventTimes(day.date, activity),
+        `SUMMARY:${escapeText(activity.activity)}`,
+        `LOCATION:${escapeText(activity.location)}`,
+        `DESCRIPTION:${escapeText(description)}`,
+        `CATEGORIES:${escapeText(itinerary.title)}`,
+        "END:VEVENT",
+      ];
+    })
+  );
+}
+
+export function buildCalendar(name: string, itineraries: Itinerary[]) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Wanderlust//Itinerary Calendar//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...itineraries.flatMap(itineraryEvents).flat(),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
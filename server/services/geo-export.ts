@@ -0,0 +1,129 @@
+import { type Itinerary } from "@shared/schema";
+import {
+  parseStoredItinerary,
+  type Activity,
+  type Coordinates,
+  type DayPlan,
+} from "@shared/itinerary";
+
+// GPX 1.1 and KML 2.2 documents for offline map apps. Only activities with
+// geocoded coordinates can be placed; the rest are left out.
+
+type LocatedActivity = Activity & { coordinates: Coordinates };
+
+interface LocatedDay {
+  day: DayPlan;
+  activities: LocatedActivity[];
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function locatedDays(itinerary: Itinerary): LocatedDay[] {
+  const content = parseStoredItinerary(itinerary.generatedContent);
+  if (!content) return [];
+
+  return content.days.map((day) => ({
+    day,
+    activities: day.activities.filter(
+      (activity): activity is LocatedActivity => !!activity.coordinates
+    ),
+  }));
+}
+
+// Numbered by position in the day, counting activities that were left out
+const waypointName = (day: DayPlan, activity: Activity) =>
+  `Day ${day.day} #${day.activities.indexOf(activity) + 1}: ${activity.activity}`;
+
+// GPX has no folders, so waypoints carry their day in <type> and each day is
+// a separate route
+export function buildGpx(itinerary: Itinerary) {
+  const days = locatedDays(itinerary);
+  const latLon = ({ lat, lng }: Coordinates) => `lat="${lat}" lon="${lng}"`;
+
+  const waypoints = days.flatMap(({ day, activities }) =>
+    activities.map(
+      (activity) =>
+        `  <wpt ${latLon(activity.coordinates)}>
+    <name>${escapeXml(waypointName(day, activity))}</name>
+    <desc>${escapeXml(activity.location)}</desc>
+    <type>Day ${day.day}</type>
+  </wpt>`
+    )
+  );
+
+  const routes = days
+    .filter(({ activities }) => activities.length > 0)
+    .map(
+      ({ day, activities }) => `  <rte>
+    <name>${escapeXml(`Day ${day.day}: ${day.title}`)}</name>
+${activities
+  .map(
+    (activity) =>
+      `    <rtept ${latLon(activity.coordinates)}><name>${escapeXml(
+        activity.activity
+      )}</name></rtept>`
+  )
+  .join("\n")}
+  </rte>`
+    );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Wanderlust" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(itinerary.title)}</name>
+  </metadata>
+${[...waypoints, ...routes].join("\n")}
+</gpx>
+`;
+}
+
+// One folder per day holding its placemarks and a line through them
+export function buildKml(itinerary: Itinerary) {
+  const lngLat = ({ lat, lng }: Coordinates) => `${lng},${lat}`;
+
+  const folders = locatedDays(itinerary).map(({ day, activities }) => {
+    const placemarks = activities.map(
+      (activity) => `      <Placemark>
+        <name>${escapeXml(waypointName(day, activity))}</name>
+        <description>${escapeXml(
+          [activity.time, activity.location, activity.notes]
+            .filter(Boolean)
+            .join("\n")
+        )}</description>
+        <Point><coordinates>${lngLat(activity.coordinates)}</coordinates></Point>
+      </Placemark>`
+    );
+    if (activities.length > 1) {
+      placemarks.push(`      <Placemark>
+        <name>${escapeXml(`Day ${day.day} route`)}</name>
+        <LineString>
+          <tessellate>1</tessellate>
+          <coordinates>${activities
+            .map((activity) => lngLat(activity.coordinates))
+            .join(" ")}</coordinates>
+        </LineString>
+      </Placemark>`);
+    }
+
+    return `    <Folder>
+      <name>${escapeXml(`Day ${day.day}: ${day.title}`)}</name>
+${placemarks.join("\n")}
+    </Folder>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(itinerary.title)}</name>
+${folders.join("\n")}
+  </Document>
+</kml>
+`;
+}
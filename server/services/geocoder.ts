@@ -0,0 +1,247 @@
+import { readFileSync } from "fs";
+import path from "path";
+import {
+  type Activity,
+  type Coordinates,
+  type GeneratedItinerary,
+} from "@shared/itinerary";
+
+// Turns free-text activity locations into coordinates. The backend is chosen
+// with GEOCODER=google|nominatim|fixture; without it, Google is used when a
+// key is configured, the fixture file in development and Nominatim otherwise.
+
+export type GeocodeResult = Required<Coordinates>;
+
+export interface Geocoder {
+  readonly name: string;
+  // null when nothing matches; throws when the backend can't be reached
+  geocode(query: string): Promise<GeocodeResult | null>;
+}
+
+const GOOGLE_CONFIDENCE: Record<string, number> = {
+  ROOFTOP: 1,
+  RANGE_INTERPOLATED: 0.8,
+  GEOMETRIC_CENTER: 0.6,
+  APPROXIMATE: 0.4,
+};
+
+class GoogleGeocoder implements Geocoder {
+  readonly name = "google";
+  private readonly API_URL =
+    "https://maps.googleapis.com/maps/api/geocode/json";
+
+  constructor(private readonly apiKey: string) {}
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const params = new URLSearchParams({ address: query, key: this.apiKey });
+    const response = await fetch(`${this.API_URL}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Google Geocoding API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data.status === "ZERO_RESULTS") return null;
+    if (data.status !== "OK") {
+      throw new Error(
+        `Google Geocoding API error: ${data.status} - ${data.error_message || "Unknown error"}`
+      );
+    }
+
+    const [result] = data.results;
+    const confidence =
+      (GOOGLE_CONFIDENCE[result.geometry.location_type] ?? 0.4) *
+      (result.partial_match ? 0.75 : 1);
+    return {
+      lat: result.geometry.location.lat,
+      lng: result.geometry.location.lng,
+      confidence,
+    };
+  }
+}
+
+// The public Nominatim service allows one request per second and requires
+// an identifying User-Agent, so requests are queued
+class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim";
+  private readonly MIN_INTERVAL_MS = 1000;
+  private queue = Promise.resolve();
+
+  constructor(private readonly baseUrl: string) {}
+
+  geocode(query: string): Promise<GeocodeResult | null> {
+    const result = this.queue.then(() => this.search(query));
+    this.queue = result.then(
+      () => delay(this.MIN_INTERVAL_MS),
+      () => delay(this.MIN_INTERVAL_MS)
+    );
+    return result;
+  }
+
+  private async search(query: string): Promise<GeocodeResult | null> {
+    const params = new URLSearchParams({
+      q: query,
+      format: "jsonv2",
+      limit: "1",
+    });
+    const response = await fetch(`${this.baseUrl}/search?${params}`, {
+      headers: {
+        Accept: "application/json",
+        "User-Agent": "Wanderlust itinerary planner",
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Nominatim error: ${response.status}`);
+    }
+
+    const [place] = await response.json();
+    if (!place) return null;
+    return {
+      lat: parseFloat(place.lat),
+      lng: parseFloat(place.lon),
+      // importance ranks how prominent the place is, from 0 to 1
+      confidence: Math.min(Math.max(place.importance ?? 0.5, 0), 1),
+    };
+  }
+}
+
+const delay = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const normalizeQuery = (query: string) =>
+  query.toLowerCase().replace(/\s+/g, " ").trim();
+
+// Looks locations up in a JSON file of { "place, city": { lat, lng,
+// confidence } } so development and tests need no network access
+class FixtureGeocoder implements Geocoder {
+  readonly name = "fixture";
+  private readonly places: Map<string, GeocodeResult>;
+
+  constructor(file: string) {
+    const entries = Object.entries(
+      JSON.parse(readFileSync(file, "utf-8")) as Record<string, GeocodeResult>
+    );
+    this.places = new Map(
+      entries.map(([query, place]) => [normalizeQuery(query), place])
+    );
+  }
+
+  async geocode(query: string): Promise<GeocodeResult | null> {
+    const normalized = normalizeQuery(query);
+    // Fall back to the place name without the destination appended
+    return (
+      this.places.get(normalized) ??
+      this.places.get(normalized.split(",")[0].trim()) ??
+      null
+    );
+  }
+}
+
+function createGeocoder(): Geocoder {
+  const googleKey =
+    process.env.GOOGLE_MAPS_API_KEY || process.env.GOOGLE_PLACES_API_KEY;
+  const backend =
+    process.env.GEOCODER ||
+    (googleKey
+      ? "google"
+      : process.env.NODE_ENV === "development"
+        ? "fixture"
+        : "nominatim");
+
+  switch (backend) {
+    case "google":
+      if (!googleKey) {
+        throw new Error("GEOCODER=google needs GOOGLE_MAPS_API_KEY");
+      }
+      return new GoogleGeocoder(googleKey);
+    case "nominatim":
+      return new NominatimGeocoder(
+        process.env.NOMINATIM_URL || "https://nominatim.openstreetmap.org"
+      );
+    case "fixture":
+      return new FixtureGeocoder(
+        process.env.GEOCODER_FIXTURES ||
+          path.resolve("server", "fixtures", "geocoder.json")
+      );
+    default:
+      throw new Error(`Unknown GEOCODER backend: ${backend}`);
+  }
+}
+
+// Created on first use so settings loaded from .env at startup apply
+let geocoder: Geocoder | undefined;
+export function getGeocoder() {
+  geocoder ??= createGeocoder();
+  return geocoder;
+}
+
+// Model output often names just the venue, so the trip destination is added
+// unless the location already mentions it
+function geocodeQuery(location: string, destination: string) {
+  return location.toLowerCase().includes(destination.toLowerCase())
+    ? location
+    : `${location}, ${destination}`;
+}
+
+const isPending = (activity: Activity) =>
+  !activity.coordinates && !activity.locationUnresolved;
+
+// Looks up the locations of activities that have not been geocoded yet, once
+// per distinct query. Lookups that failed because the backend was unreachable
+// are left out so the next pass retries them.
+export async function lookupPendingLocations(
+  content: GeneratedItinerary,
+  destination: string
+): Promise<Map<string, GeocodeResult | null>> {
+  const results = new Map<string, GeocodeResult | null>();
+
+  // A misconfigured geocoder shouldn't stop itineraries from being saved
+  let backend: Geocoder;
+  try {
+    backend = getGeocoder();
+  } catch (error) {
+    console.error("Geocoder unavailable:", error);
+    return results;
+  }
+
+  const queries = new Set(
+    content.days.flatMap((day) =>
+      day.activities
+        .filter(isPending)
+        .map((activity) => geocodeQuery(activity.location, destination))
+    )
+  );
+  await Promise.all(
+    Array.from(queries, async (query) => {
+      try {
+        results.set(query, await backend.geocode(query));
+      } catch (error) {
+        console.error(`Error geocoding "${query}":`, error);
+      }
+    })
+  );
+  return results;
+}
+
+// Fills in looked-up coordinates. Locations with no match are flagged with
+// locationUnresolved. Returns the content unchanged when nothing applies.
+export function applyGeocodes(
+  content: GeneratedItinerary,
+  destination: string,
+  results: Map<string, GeocodeResult | null>
+): GeneratedItinerary {
+  let changed = false;
+  const days = content.days.map((day) => ({
+    ...day,
+    activities: day.activities.map((activity) => {
+      if (!isPending(activity)) return activity;
+      const result = results.get(geocodeQuery(activity.location, destination));
+      if (result === undefined) return activity;
+
+      changed = true;
+      return result
+        ? { ...activity, coordinates: result }
+        : { ...activity, locationUnresolved: true };
+    }),
+  }));
+  return changed ? { ...content, days } : content;
+}
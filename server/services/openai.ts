@@ -1,4 +1,15 @@
 import OpenAI from "openai";
+import { type ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import { z, type ZodIssue, type ZodTypeAny } from "zod";
+import { type Itinerary } from "@shared/schema";
+import {
+  activitySchema,
+  dayPlanSchema,
+  generatedItinerarySchema,
+  type Activity,
+  type DayPlan,
+  type GeneratedItinerary,
+} from "@shared/itinerary";
 
 const openai = new OpenAI({
   apiKey:
@@ -19,37 +30,29 @@ export interface ItineraryRequest {
   interests: string;
 }
 
-export interface DayPlan {
-  day: number;
-  date: string;
-  title: string;
-  activities: {
-    time: string;
-    period: string; // morning, afternoon, evening
-    activity: string;
-    location: string;
-    duration?: string;
-    cost?: string;
-    notes?: string;
-  }[];
-}
-
-export interface GeneratedItinerary {
-  title: string;
-  description: string;
-  duration: string;
-  days: DayPlan[];
-  recommendations: {
-    bestPhotoSpots: string[];
-    localTips: string[];
-    weatherAndPacking: string[];
+export function toItineraryRequest(itinerary: Itinerary): ItineraryRequest {
+  return {
+    location: itinerary.location,
+    startDate: itinerary.startDate,
+    endDate: itinerary.endDate,
+    tripType: itinerary.tripType,
+    transport: itinerary.transport,
+    accommodation: itinerary.accommodation,
+    dining: itinerary.dining,
+    ageGroup: itinerary.ageGroup,
+    interests: itinerary.interests,
   };
 }
 
-export async function generateItinerary(
-  request: ItineraryRequest
-): Promise<GeneratedItinerary> {
-  const prompt = `Create a detailed travel itinerary given the following:
+// "time" and "duration" are display strings derived from these on save
+const TIME_GUIDANCE =
+  'Give "startTime" and "endTime" as 24-hour local times in HH:MM format, such as "09:30" and "21:00". Leave out "time" and "duration"; they are filled in from the start and end times.';
+
+const ESTIMATED_COST_GUIDANCE =
+  'For "estimatedCost", give the expected total for the whole group as a number in the local currency of the destination, with its ISO 4217 code. Use 0 for free activities.';
+
+function buildItineraryPrompt(request: ItineraryRequest): string {
+  return `Create a detailed travel itinerary given the following:
 
 Location: ${request.location}
 Dates: ${request.startDate} to ${request.endDate}
@@ -77,12 +80,13 @@ Return the response in JSON format with the following structure:
       "title": "Day theme",
       "activities": [
         {
-          "time": "10:00 AM",
+          "startTime": "10:00",
+          "endTime": "12:30",
           "period": "morning",
           "activity": "Activity description",
           "location": "Specific address or landmark",
-          "duration": "2-3 hours",
           "cost": "€€€",
+          "estimatedCost": { "amount": 25, "currency": "EUR" },
           "notes": "Additional helpful information"
         }
       ]
@@ -95,30 +99,452 @@ Return the response in JSON format with the following structure:
   }
 }
 
-Make sure all activities are realistic, properly timed, and include specific locations with addresses.`;
+Make sure all activities are realistic, properly timed, and include specific locations with addresses.
+
+${TIME_GUIDANCE}
+
+${ESTIMATED_COST_GUIDANCE}`;
+}
+
+const SYSTEM_PROMPT =
+  "You are an expert travel planner with extensive knowledge of destinations worldwide. Create detailed, realistic, and engaging travel itineraries based on user preferences. Always respond with valid JSON.";
 
+// Thrown when the model output still fails validation after a repair attempt
+export class ItineraryValidationError extends Error {
+  constructor(public issues: ZodIssue[]) {
+    super("The AI returned an itinerary that could not be validated");
+    this.name = "ItineraryValidationError";
+  }
+}
+
+function parseModelJson(content: string | null | undefined): unknown {
   try {
-    const response = await openai.chat.completions.create({
+    return JSON.parse(content || "{}");
+  } catch {
+    return undefined;
+  }
+}
+
+function formatIssues(issues: ZodIssue[]): string {
+  return issues
+    .map((issue) => `- ${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("\n");
+}
+
+// Prompts include stored coordinates, which the model can copy onto activities
+// it moves or makes up. Coordinates are only kept for locations already in the
+// itinerary; the geocoder looks up the rest once the result is saved.
+function withKnownCoordinates(
+  activities: Activity[],
+  itinerary: GeneratedItinerary | null
+): Activity[] {
+  const known = new Map(
+    (itinerary?.days ?? []).flatMap((day) =>
+      day.activities.map((activity) => [activity.location, activity] as const)
+    )
+  );
+  return activities.map((activity) => {
+    const original = known.get(activity.location);
+    return {
+      ...activity,
+      coordinates: original?.coordinates,
+      locationUnresolved: original?.locationUnresolved,
+    };
+  });
+}
+
+const withKnownDayCoordinates = (
+  content: GeneratedItinerary,
+  itinerary: GeneratedItinerary | null
+): GeneratedItinerary => ({
+  ...content,
+  days: content.days.map((day) => ({
+    ...day,
+    activities: withKnownCoordinates(day.activities, itinerary),
+  })),
+});
+
+// Validates the model output and, if it doesn't match the schema, asks the
+// model once to correct it before giving up
+async function validateModelOutput<T extends ZodTypeAny>(
+  schema: T,
+  messages: ChatCompletionMessageParam[],
+  content: string
+): Promise<z.infer<T>> {
+  const result = schema.safeParse(parseModelJson(content));
+  if (result.success) {
+    return result.data;
+  }
+
+  console.warn(
+    "AI output failed validation, re-prompting:",
+    result.error.issues
+  );
+
+  const response = await openai.chat.completions.create({
+    model: "gpt-4.1",
+    messages: [
+      ...messages,
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `The JSON you returned does not match the required structure:
+${formatIssues(result.error.issues)}
+
+Return the complete corrected JSON with exactly the requested structure.`,
+      },
+    ],
+    response_format: { type: "json_object" },
+    temperature: 0.2,
+  });
+
+  const repaired = schema.safeParse(
+    parseModelJson(response.choices[0].message.content)
+  );
+  if (!repaired.success) {
+    throw new ItineraryValidationError(repaired.error.issues);
+  }
+  return repaired.data;
+}
+
+function itineraryMessages(
+  request: ItineraryRequest
+): ChatCompletionMessageParam[] {
+  return [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: buildItineraryPrompt(request) },
+  ];
+}
+
+// Incrementally scans the streamed JSON text and returns each object of the
+// "days" array as soon as its closing brace arrives.
+class DayStreamParser {
+  private text = "";
+  private position = -1;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+  private done = false;
+
+  push(chunk: string): DayPlan[] {
+    this.text += chunk;
+    const completed: DayPlan[] = [];
+
+    if (this.position < 0) {
+      const match = /"days"\s*:\s*\[/.exec(this.text);
+      if (!match) return completed;
+      this.position = match.index + match[0].length;
+    }
+
+    for (; !this.done && this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') this.inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        if (this.depth === 0) this.objectStart = this.position;
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        if (this.depth === 0) {
+          // Closing bracket of the days array itself
+          this.done = true;
+          break;
+        }
+        this.depth--;
+        if (this.depth === 0 && this.objectStart >= 0) {
+          // Skip malformed days; the final document is validated again
+          const day = dayPlanSchema.safeParse(
+            parseModelJson(this.text.slice(this.objectStart, this.position + 1))
+          );
+          if (day.success) completed.push(day.data);
+          this.objectStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  }
+}
+
+export async function streamItinerary(
+  request: ItineraryRequest,
+  onDay: (day: DayPlan) => void
+): Promise<GeneratedItinerary> {
+  const messages = itineraryMessages(request);
+  try {
+    const stream = await openai.chat.completions.create({
       model: "gpt-4.1",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert travel planner with extensive knowledge of destinations worldwide. Create detailed, realistic, and engaging travel itineraries based on user preferences. Always respond with valid JSON.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
+      messages,
       response_format: { type: "json_object" },
       temperature: 0.8,
+      stream: true,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || "{}");
-    return result as GeneratedItinerary;
+    const parser = new DayStreamParser();
+    let content = "";
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (!delta) continue;
+      content += delta;
+      parser.push(delta).forEach(onDay);
+    }
+
+    const itinerary = await validateModelOutput(
+      generatedItinerarySchema,
+      messages,
+      content
+    );
+    return withKnownDayCoordinates(itinerary, null);
   } catch (error) {
+    if (error instanceof ItineraryValidationError) throw error;
     console.error("OpenAI API error:", error);
     throw new Error("Failed to generate itinerary. Please try again.");
   }
 }
+
+export async function regenerateDay(
+  request: ItineraryRequest,
+  itinerary: GeneratedItinerary,
+  day: DayPlan,
+  instructions?: string
+): Promise<DayPlan> {
+  const prompt = `You are revising one day of an existing travel itinerary.
+
+Location: ${request.location}
+Dates: ${request.startDate} to ${request.endDate}
+Trip Type: ${request.tripType}
+Transportation: ${request.transport}
+Accommodation: ${request.accommodation}
+Dining Preferences: ${request.dining}
+Age Group: ${request.ageGroup}
+Interests: ${request.interests}
+
+This is the full current itinerary:
+${JSON.stringify(itinerary, null, 2)}
+
+Write a new plan for Day ${day.day} (${day.date}) only. It should fit with the other days and must not repeat their activities.${
+    instructions
+      ? `\n\nTraveller's instructions for this day: ${instructions}`
+      : ""
+  }
+
+Return only the new day in JSON format with the following structure:
+{
+  "day": ${day.day},
+  "date": "${day.date}",
+  "title": "Day theme",
+  "activities": [
+    {
+      "startTime": "10:00",
+      "endTime": "12:30",
+      "period": "morning",
+      "activity": "Activity description",
+      "location": "Specific address or landmark",
+      "cost": "€€€",
+      "estimatedCost": { "amount": 25, "currency": "EUR" },
+      "notes": "Additional helpful information"
+    }
+  ]
+}
+
+${TIME_GUIDANCE}
+
+${ESTIMATED_COST_GUIDANCE}`;
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ];
+
+  try {
+    const response = await openai.chat.completions.create({
+      model: "gpt-4.1",
+      messages,
+      response_format: { type: "json_object" },
+      temperature: 0.8,
+    });
+
+    const newDay = await validateModelOutput(
+      dayPlanSchema,
+      messages,
+      response.choices[0].message.content || ""
+    );
+    // The slot in the trip doesn't move, whatever the model says
+    return {
+      ...newDay,
+      day: day.day,
+      date: day.date,
+      activities: withKnownCoordinates(newDay.activities, itinerary),
+    };
+  } catch (error) {
+    if (error instanceof ItineraryValidationError) throw error;
+    console.error("OpenAI API error:", error);
+    throw new Error("Failed to regenerate day. Please try again.");
+  }
+}
+
+const alternativesSchema = z.object({
+  alternatives: z.array(activitySchema).min(1).max(3),
+});
+
+export async function suggestActivityAlternatives(
+  request: ItineraryRequest,
+  itinerary: GeneratedItinerary,
+  day: DayPlan,
+  activity: Activity
+): Promise<Activity[]> {
+  const prompt = `Suggest 3 alternatives for one activity in an existing travel itinerary.
+
+Location: ${request.location}
+Trip Type: ${request.tripType}
+Transportation: ${request.transport}
+Dining Preferences: ${request.dining}
+Age Group: ${request.ageGroup}
+Interests: ${request.interests}
+
+This is Day ${day.day} (${day.date}) of the trip:
+${JSON.stringify(day, null, 2)}
+
+Replace this activity:
+${JSON.stringify(activity, null, 2)}
+
+Each alternative must:
+- keep the period "${activity.period}"
+- start at a similar time and take a similar amount of time${
+    activity.duration ? ` (about ${activity.duration})` : ""
+  }
+- be close to "${activity.location}"
+- differ from each other and from everything else in the itinerary: ${itinerary.days
+    .flatMap((d) => d.activities.map((a) => a.activity))
+    .join("; ")}
+
+Return the response in JSON format with the following structure:
+{
+  "alternatives": [
+    {
+      "startTime": "${activity.startTime ?? "10:00"}",
+      "endTime": "${activity.endTime ?? "12:30"}",
+      "period": "${activity.period}",
+      "activity": "Activity description",
+      "location": "Specific address or landmark",
+      "cost": "€€€",
+      "estimatedCost": { "amount": 25, "currency": "EUR" },
+      "notes": "Additional helpful information"
+    }
+  ]
+}
+
+${TIME_GUIDANCE}
+
+${ESTIMATED_COST_GUIDANCE}`;
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: prompt },
+  ];
+
+  try {
+    const response = await openai.chat.completions.create({
+      model: "gpt-4.1",
+      messages,
+      response_format: { type: "json_object" },
+      temperature: 0.9,
+    });
+
+    const { alternatives } = await validateModelOutput(
+      alternativesSchema,
+      messages,
+      response.choices[0].message.content || ""
+    );
+    return withKnownCoordinates(alternatives, itinerary).map((alternative) => ({
+      ...alternative,
+      period: activity.period,
+    }));
+  } catch (error) {
+    if (error instanceof ItineraryValidationError) throw error;
+    console.error("OpenAI API error:", error);
+    throw new Error("Failed to suggest alternatives. Please try again.");
+  }
+}
+
+const refinementSchema = z.object({
+  reply: z.string().min(1),
+  itinerary: generatedItinerarySchema.nullable(),
+});
+
+export interface RefinementResult {
+  reply: string;
+  itinerary: GeneratedItinerary | null;
+}
+
+export async function refineItinerary(
+  request: ItineraryRequest,
+  itinerary: GeneratedItinerary,
+  conversation: { role: "user" | "assistant"; content: string }[]
+): Promise<RefinementResult> {
+  const context = `You are helping a traveller refine their existing itinerary through conversation.
+
+Location: ${request.location}
+Dates: ${request.startDate} to ${request.endDate}
+Trip Type: ${request.tripType}
+Transportation: ${request.transport}
+Accommodation: ${request.accommodation}
+Dining Preferences: ${request.dining}
+Age Group: ${request.ageGroup}
+Interests: ${request.interests}
+
+This is the current itinerary:
+${JSON.stringify(itinerary, null, 2)}
+
+Reply to the traveller's latest message. If they ask for changes, apply them and return the complete updated itinerary, keeping everything they didn't ask to change exactly as it is. If they only ask a question, answer it and return null for the itinerary.
+
+Return the response in JSON format with the following structure:
+{
+  "reply": "Short explanation of what you changed, or the answer to their question",
+  "itinerary": { ...complete itinerary with the same structure as above... } or null
+}
+
+To move or resize an activity, change its "startTime" and "endTime". ${TIME_GUIDANCE}`;
+
+  const messages: ChatCompletionMessageParam[] = [
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "system", content: context },
+    ...conversation.map((message) => ({
+      role: message.role,
+      content: message.content,
+    })),
+  ];
+
+  try {
+    const response = await openai.chat.completions.create({
+      model: "gpt-4.1",
+      messages,
+      response_format: { type: "json_object" },
+      temperature: 0.7,
+    });
+
+    const result = await validateModelOutput(
+      refinementSchema,
+      messages,
+      response.choices[0].message.content || ""
+    );
+    return {
+      reply: result.reply,
+      itinerary:
+        result.itinerary &&
+        withKnownDayCoordinates(result.itinerary, itinerary),
+    };
+  } catch (error) {
+    if (error instanceof ItineraryValidationError) throw error;
+    console.error("OpenAI API error:", error);
+    throw new Error("Failed to refine itinerary. Please try again.");
+  }
+}
@@ -0,0 +1,509 @@
+import { jsPDF } from "jspdf";
+import { type Itinerary } from "@shared/schema";
+import {
+  type Activity,
+  type DayPlan,
+  type GeneratedItinerary,
+  type Money,
+} from "@shared/itinerary";
+import { formatMoney } from "@shared/currency";
+import { formatActivityTime } from "@shared/activity-time";
+import { formatDayDate } from "@shared/itinerary-text";
+import { type PdfExportOptions, type PdfSection } from "@shared/pdf-export";
+
+// Renders itinerary PDFs with jsPDF's built-in Helvetica, so no fonts or
+// browser are needed on the server. Three templates share one writer:
+//   compact  - small type in two columns, aimed at a single page
+//   booklet  - cover, table of contents and a page per day
+//   print    - one continuous column in black and white
+
+type Rgb = [number, number, number];
+
+interface Palette {
+  primary: Rgb;
+  secondary: Rgb;
+  accent: Rgb;
+  text: Rgb;
+  muted: Rgb;
+  // Headings are solid bands when filled, otherwise underlined to save ink
+  filled: boolean;
+}
+
+const colourPalette: Palette = {
+  primary: [15, 118, 110],
+  secondary: [2, 132, 199],
+  accent: [249, 115, 22],
+  text: [0, 0, 0],
+  muted: [100, 116, 139],
+  filled: true,
+};
+
+const printPalette: Palette = {
+  primary: [0, 0, 0],
+  secondary: [0, 0, 0],
+  accent: [0, 0, 0],
+  text: [0, 0, 0],
+  muted: [90, 90, 90],
+  filled: false,
+};
+
+// Type sizes in points; line heights are half the size in millimetres
+interface Scale {
+  title: number;
+  heading: number;
+  body: number;
+  small: number;
+}
+
+const regularScale: Scale = { title: 24, heading: 16, body: 11, small: 10 };
+const compactScale: Scale = { title: 18, heading: 10, body: 8, small: 7 };
+
+interface TextOptions {
+  size: number;
+  bold?: boolean;
+  color?: Rgb;
+  indent?: number;
+  spaceBefore?: number;
+}
+
+const FOOTER_HEIGHT = 8;
+const COLUMN_GAP = 8;
+
+// Flows text down the page, moving to the next column or page when full
+class PdfWriter {
+  readonly doc = new jsPDF();
+  readonly pageWidth = this.doc.internal.pageSize.getWidth();
+  readonly pageHeight = this.doc.internal.pageSize.getHeight();
+  y: number;
+  private column = 0;
+  private columnTop: number;
+
+  constructor(
+    readonly palette: Palette,
+    readonly margin: number,
+    readonly columns = 1
+  ) {
+    this.y = margin;
+    this.columnTop = margin;
+  }
+
+  get columnWidth() {
+    const width = this.pageWidth - 2 * this.margin;
+    return (width - COLUMN_GAP * (this.columns - 1)) / this.columns;
+  }
+
+  get x() {
+    return this.margin + this.column * (this.columnWidth + COLUMN_GAP);
+  }
+
+  get pageNumber() {
+    return this.doc.getNumberOfPages();
+  }
+
+  // Columns start level with wherever the flow is now, e.g. below a banner
+  startColumns() {
+    this.column = 0;
+    this.columnTop = this.y;
+  }
+
+  newPage() {
+    this.doc.addPage();
+    this.column = 0;
+    this.y = this.columnTop = this.margin;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height <= this.pageHeight - this.margin - FOOTER_HEIGHT) {
+      return;
+    }
+    if (this.column < this.columns - 1) {
+      this.column++;
+      this.y = this.columnTop;
+    } else {
+      this.newPage();
+    }
+  }
+
+  private setFont(size: number, bold = false, color = this.palette.text) {
+    this.doc.setFontSize(size);
+    this.doc.setFont("helvetica", bold ? "bold" : "normal");
+    this.doc.setTextColor(...color);
+  }
+
+  text(value: string, options: TextOptions) {
+    const { size, bold, color, indent = 0, spaceBefore = 0 } = options;
+    this.setFont(size, bold, color);
+    const lines: string[] = this.doc.splitTextToSize(
+      value,
+      this.columnWidth - indent
+    );
+    const lineHeight = size * 0.5;
+
+    this.ensureSpace(spaceBefore + lineHeight);
+    this.y += spaceBefore;
+    // Long paragraphs may continue in the next column
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, this.x + indent, this.y);
+      this.y += lineHeight;
+    }
+  }
+
+  // A section heading the width of the column
+  heading(value: string, color: Rgb, size: number, subtitle?: string) {
+    const padding = size * 0.25;
+    this.setFont(size, true);
+    const lines: string[] = this.doc.splitTextToSize(
+      value,
+      this.columnWidth - 2 * padding
+    );
+    const subtitleHeight = subtitle ? size * 0.4 : 0;
+    const height = lines.length * size * 0.5 + subtitleHeight + 2 * padding;
+
+    this.ensureSpace(height + size * 0.5);
+    const top = this.y;
+    const textColor: Rgb = this.palette.filled ? [255, 255, 255] : color;
+    if (this.palette.filled) {
+      this.doc.setFillColor(...color);
+      this.doc.rect(this.x, top, this.columnWidth, height, "F");
+    } else {
+      this.doc.setDrawColor(...color);
+      this.doc.setLineWidth(0.4);
+      this.doc.line(
+        this.x,
+        top + height,
+        this.x + this.columnWidth,
+        top + height
+      );
+    }
+
+    let baseline = top + padding + size * 0.3;
+    this.setFont(size, true, textColor);
+    this.doc.text(lines, this.x + padding, baseline);
+    if (subtitle) {
+      baseline += lines.length * size * 0.5;
+      this.setFont(size * 0.7, false, textColor);
+      this.doc.text(subtitle, this.x + padding, baseline);
+    }
+    this.y = top + height + size * 0.4;
+  }
+
+  // Title block across the full width at the top of the page
+  banner(title: string, subtitle: string | null, scale: Scale) {
+    const width = this.pageWidth - 2 * this.margin;
+    this.setFont(scale.title, true);
+    const titleLines: string[] = this.doc.splitTextToSize(title, width);
+    this.setFont(scale.body);
+    const subtitleLines: string[] = subtitle
+      ? this.doc.splitTextToSize(subtitle, width)
+      : [];
+    const titleHeight = titleLines.length * scale.title * 0.5;
+    const height =
+      this.margin +
+      titleHeight +
+      subtitleLines.length * scale.body * 0.5 +
+      this.margin / 2;
+
+    const textColor: Rgb = this.palette.filled
+      ? [255, 255, 255]
+      : this.palette.text;
+    if (this.palette.filled) {
+      this.doc.setFillColor(...this.palette.primary);
+      this.doc.rect(0, 0, this.pageWidth, height, "F");
+    } else {
+      this.doc.setDrawColor(...this.palette.primary);
+      this.doc.setLineWidth(0.8);
+      this.doc.line(this.margin, height, this.pageWidth - this.margin, height);
+    }
+
+    let baseline = this.margin + scale.title * 0.3;
+    this.setFont(scale.title, true, textColor);
+    this.doc.text(titleLines, this.margin, baseline);
+    baseline += titleHeight;
+    if (subtitleLines.length > 0) {
+      this.setFont(scale.body, false, textColor);
+      this.doc.text(subtitleLines, this.margin, baseline);
+    }
+    this.y = this.columnTop = height + this.margin / 2;
+  }
+
+  // Page numbers are only known once everything has been laid out
+  finish() {
+    const totalPages = this.doc.getNumberOfPages();
+    for (let i = 1; i <= totalPages; i++) {
+      this.doc.setPage(i);
+      this.setFont(8, false, this.palette.muted);
+      this.doc.text(
+        `Generated by Wanderlust AI | Page ${i} of ${totalPages}`,
+        this.pageWidth / 2,
+        this.pageHeight - 10,
+        { align: "center" }
+      );
+    }
+    return Buffer.from(this.doc.output("arraybuffer"));
+  }
+}
+
+interface RenderContext {
+  itinerary: Itinerary;
+  content: GeneratedItinerary;
+  days: DayPlan[];
+  options: PdfExportOptions;
+  formatCost: (money: Money) => string;
+}
+
+const capitalize = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const includes = (context: RenderContext, section: PdfSection) =>
+  context.options.sections.includes(section);
+
+function overviewLines({ itinerary, content }: RenderContext) {
+  return [
+    `Destination: ${itinerary.location}`,
+    `Dates: ${formatDayDate(itinerary.startDate)} - ${formatDayDate(itinerary.endDate)}`,
+    `Duration: ${content.duration}`,
+    `Trip Type: ${capitalize(itinerary.tripType)}`,
+    `Transportation: ${capitalize(itinerary.transport)}`,
+    `Accommodation: ${capitalize(itinerary.accommodation)}`,
+  ];
+}
+
+function costLine(activity: Activity, context: RenderContext) {
+  const parts: string[] = [];
+  if (activity.duration) parts.push(`Duration: ${activity.duration}`);
+  if (includes(context, "costs")) {
+    const cost = activity.estimatedCost
+      ? context.formatCost(activity.estimatedCost)
+      : activity.cost;
+    if (cost) parts.push(`Cost: ${cost}`);
+    if (activity.actualCost) {
+      parts.push(`Spent: ${context.formatCost(activity.actualCost)}`);
+    }
+  }
+  return parts.join(" | ");
+}
+
+function writeOverview(
+  writer: PdfWriter,
+  context: RenderContext,
+  scale: Scale
+) {
+  overviewLines(context).forEach((line, index) =>
+    writer.text(line, {
+      size: scale.body,
+      bold: index === 0,
+      spaceBefore: index === 0 ? 0 : scale.body * 0.15,
+    })
+  );
+}
+
+function writeActivities(
+  writer: PdfWriter,
+  day: DayPlan,
+  context: RenderContext,
+  scale: Scale
+) {
+  day.activities.forEach((activity, index) => {
+    writer.text(
+      `${formatActivityTime(activity)} - ${capitalize(activity.period)}`,
+      {
+        size: scale.body,
+        bold: true,
+        color: writer.palette.secondary,
+        spaceBefore: index === 0 ? 0 : scale.body * 0.5,
+      }
+    );
+    writer.text(activity.activity, { size: scale.body });
+    writer.text(`Location: ${activity.location}`, {
+      size: scale.small,
+      color: writer.palette.muted,
+    });
+    const details = costLine(activity, context);
+    if (details) writer.text(details, { size: scale.small });
+    if (includes(context, "notes") && activity.notes) {
+      writer.text(`Notes: ${activity.notes}`, { size: scale.small });
+    }
+  });
+}
+
+function writeDay(
+  writer: PdfWriter,
+  day: DayPlan,
+  context: RenderContext,
+  scale: Scale
+) {
+  writer.heading(
+    `Day ${day.day} - ${day.title}`,
+    writer.palette.secondary,
+    scale.heading,
+    formatDayDate(day.date)
+  );
+  writeActivities(writer, day, context, scale);
+}
+
+function writeRecommendations(
+  writer: PdfWriter,
+  { content }: RenderContext,
+  scale: Scale
+) {
+  writer.heading("AI Recommendations", writer.palette.accent, scale.heading);
+  const groups: [string, string[]][] = [
+    ["Best Photo Spots", content.recommendations.bestPhotoSpots],
+    ["Local Tips", content.recommendations.localTips],
+    ["Weather & Packing", content.recommendations.weatherAndPacking],
+  ];
+  groups.forEach(([title, items], index) => {
+    writer.text(`${title}:`, {
+      size: scale.body,
+      bold: true,
+      spaceBefore: index === 0 ? 0 : scale.body * 0.5,
+    });
+    items.forEach((item) =>
+      writer.text(`• ${item}`, {
+        size: scale.small,
+        indent: 4,
+        spaceBefore: scale.small * 0.15,
+      })
+    );
+  });
+}
+
+function renderCompact(context: RenderContext) {
+  const scale = compactScale;
+  const writer = new PdfWriter(colourPalette, 12, 2);
+  writer.banner(
+    context.content.title,
+    includes(context, "overview")
+      ? overviewLines(context).slice(0, 3).join("  ·  ")
+      : null,
+    scale
+  );
+  writer.startColumns();
+
+  if (includes(context, "schedule")) {
+    context.days.forEach((day, index) => {
+      if (index > 0) writer.y += scale.body * 0.6;
+      writeDay(writer, day, context, scale);
+    });
+  }
+  if (includes(context, "recommendations")) {
+    writer.y += scale.body * 0.6;
+    writeRecommendations(writer, context, scale);
+  }
+  return writer.finish();
+}
+
+const TOC_ENTRIES_PER_PAGE = 28;
+const TOC_LINE_HEIGHT = 8;
+
+function renderBooklet(context: RenderContext) {
+  const scale = regularScale;
+  const writer = new PdfWriter(colourPalette, 20);
+
+  // Cover
+  writer.banner(context.content.title, context.content.description, scale);
+  if (includes(context, "overview")) writeOverview(writer, context, scale);
+
+  const entries: { label: string; page: number }[] = [];
+  const sections: { label: string; write: () => void }[] = [];
+  if (includes(context, "schedule")) {
+    context.days.forEach((day) =>
+      sections.push({
+        label: `Day ${day.day} - ${day.title}`,
+        write: () => writeDay(writer, day, context, scale),
+      })
+    );
+  }
+  if (includes(context, "recommendations")) {
+    sections.push({
+      label: "AI Recommendations",
+      write: () => writeRecommendations(writer, context, scale),
+    });
+  }
+
+  // Reserve the contents pages, then start every section on a fresh page
+  const tocStart = writer.pageNumber + 1;
+  const tocPages = Math.ceil(sections.length / TOC_ENTRIES_PER_PAGE);
+  for (let i = 0; i < tocPages; i++) writer.newPage();
+  for (const section of sections) {
+    writer.newPage();
+    entries.push({ label: section.label, page: writer.pageNumber });
+    section.write();
+  }
+
+  const { doc, margin, pageWidth } = writer;
+  entries.forEach((entry, index) => {
+    const slot = index % TOC_ENTRIES_PER_PAGE;
+    if (slot === 0) {
+      doc.setPage(tocStart + index / TOC_ENTRIES_PER_PAGE);
+      writer.y = margin;
+      writer.heading(
+        index === 0 ? "Contents" : "Contents (continued)",
+        writer.palette.primary,
+        scale.heading
+      );
+      writer.y += TOC_LINE_HEIGHT / 2;
+    }
+    const y = writer.y + slot * TOC_LINE_HEIGHT;
+    doc.setFontSize(scale.body);
+    doc.setFont("helvetica", "normal");
+    doc.setTextColor(...writer.palette.text);
+    const label: string = doc.splitTextToSize(
+      entry.label,
+      pageWidth - 2 * margin - 15
+    )[0];
+    doc.textWithLink(label, margin, y, { pageNumber: entry.page });
+    doc.text(entry.page.toString(), pageWidth - margin, y, { align: "right" });
+  });
+
+  return writer.finish();
+}
+
+function renderPrint(context: RenderContext) {
+  const scale = regularScale;
+  const writer = new PdfWriter(printPalette, 20);
+  writer.banner(context.content.title, context.content.description, scale);
+  if (includes(context, "overview")) {
+    writeOverview(writer, context, scale);
+    writer.y += 10;
+  }
+  if (includes(context, "schedule")) {
+    context.days.forEach((day) => {
+      writeDay(writer, day, context, scale);
+      writer.y += 8;
+    });
+  }
+  if (includes(context, "recommendations")) {
+    writeRecommendations(writer, context, scale);
+  }
+  return writer.finish();
+}
+
+const renderers = {
+  compact: renderCompact,
+  booklet: renderBooklet,
+  print: renderPrint,
+};
+
+// formatCost lets the caller add the traveller's own currency to each cost
+export function renderItineraryPdf(
+  itinerary: Itinerary,
+  content: GeneratedItinerary,
+  options: PdfExportOptions,
+  formatCost: (money: Money) => string = formatMoney
+) {
+  const days = options.days
+    ? content.days.filter((day) => options.days!.includes(day.day))
+    : content.days;
+  return renderers[options.template]({
+    itinerary,
+    content,
+    days,
+    options,
+    formatCost,
+  });
+}
+
+export const pdfFilename = (content: GeneratedItinerary) =>
+  `${content.title.replace(/[^a-z0-9]/gi, "_").toLowerCase()}_itinerary.pdf`;
@@ -1,51 +1,311 @@
 import {
   users,
   itineraries,
+  generationJobs,
+  itineraryMessages,
+  itineraryVersions,
+  itineraryShares,
+  itineraryMembers,
+  itineraryExpenses,
+  itineraryDays,
+  itineraryActivities,
+  exchangeRates,
   type User,
   type InsertUser,
+  type ExchangeRate,
+  type InsertExchangeRate,
   type Itinerary,
   type InsertItinerary,
   type UpdateItinerary,
+  type GenerationJob,
+  type ItineraryMessage,
+  type InsertItineraryMessage,
+  type ItineraryVersion,
+  type ItineraryVersionWithAuthor,
+  type ItineraryShare,
+  type InsertItineraryShare,
+  type ItineraryMember,
+  type InsertItineraryMember,
+  type ItineraryCollaborator,
+  type ItineraryExpense,
+  type InsertItineraryExpense,
+  type ItineraryDay,
+  type ItineraryActivity,
+  type ItineraryDayWithActivities,
+  type VersionReason,
 } from "@shared/schema";
+import { type Activity, type DayPlan } from "@shared/itinerary";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  lt,
+  ne,
+  or,
+  sql,
+} from "drizzle-orm";
 
 const MemoryStore = createMemoryStore(session);
 
+// Who made a content change and why, recorded with the version snapshot
+export interface ItineraryChange {
+  authorId: number | null;
+  reason: VersionReason;
+  // false for derived data such as coordinates, which needs no version
+  snapshot?: boolean;
+}
+
+// Updates touching any of these fields are snapshotted into itinerary_versions
+const versionedFields = ["title", "description", "generatedContent"] as const;
+
+function isContentChange(updates: Partial<UpdateItinerary>) {
+  return versionedFields.some((field) => updates[field] !== undefined);
+}
+
+function groupActivities(
+  days: ItineraryDay[],
+  activities: ItineraryActivity[]
+): ItineraryDayWithActivities[] {
+  return days.map((day) => ({
+    ...day,
+    activities: activities
+      .filter((activity) => activity.dayId === day.id)
+      .sort((a, b) => a.position - b.position),
+  }));
+}
+
+type ActivityColumns = Omit<
+  ItineraryActivity,
+  "id" | "dayId" | "itineraryId" | "position"
+>;
+
+// Flattens an activity's amounts into their itinerary_activities columns
+function toActivityColumns(activity: Activity): ActivityColumns {
+  return {
+    startTime: activity.startTime ?? null,
+    endTime: activity.endTime ?? null,
+    time: activity.time,
+    pinned: activity.pinned ?? false,
+    period: activity.period,
+    activity: activity.activity,
+    location: activity.location,
+    latitude: activity.coordinates?.lat ?? null,
+    longitude: activity.coordinates?.lng ?? null,
+    geocodeConfidence: activity.coordinates?.confidence ?? null,
+    locationUnresolved: activity.locationUnresolved ?? false,
+    duration: activity.duration ?? null,
+    cost: activity.cost ?? null,
+    estimatedCostAmount: activity.estimatedCost?.amount ?? null,
+    estimatedCostCurrency: activity.estimatedCost?.currency ?? null,
+    actualCostAmount: activity.actualCost?.amount ?? null,
+    actualCostCurrency: activity.actualCost?.currency ?? null,
+    notes: activity.notes ?? null,
+  };
+}
+
+function toMoney(amount: number | null, currency: string | null) {
+  return amount !== null && currency !== null
+    ? { amount, currency }
+    : undefined;
+}
+
+// Rebuilds GeneratedItinerary days from their itinerary_days rows
+function toDayPlans(days: ItineraryDayWithActivities[]): DayPlan[] {
+  return days.map((day) => ({
+    day: day.day,
+    date: day.date,
+    title: day.title,
+    activities: day.activities.map((row) => ({
+      startTime: row.startTime ?? undefined,
+      endTime: row.endTime ?? undefined,
+      time: row.time,
+      pinned: row.pinned || undefined,
+      period: row.period as Activity["period"],
+      activity: row.activity,
+      location: row.location,
+      coordinates:
+        row.latitude !== null && row.longitude !== null
+          ? {
+              lat: row.latitude,
+              lng: row.longitude,
+              confidence: row.geocodeConfidence ?? undefined,
+            }
+          : undefined,
+      locationUnresolved: row.locationUnresolved || undefined,
+      duration: row.duration ?? undefined,
+      cost: row.cost ?? undefined,
+      estimatedCost: toMoney(
+        row.estimatedCostAmount,
+        row.estimatedCostCurrency
+      ),
+      actualCost: toMoney(row.actualCostAmount, row.actualCostCurrency),
+      notes: row.notes ?? undefined,
+    })),
+  }));
+}
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(
+    id: number,
+    updates: Partial<Omit<User, "id">>
+  ): Promise<User | undefined>;
+
+  getExchangeRates(): Promise<ExchangeRate[]>;
+  // Swaps in a complete rate table from one import
+  replaceExchangeRates(rates: InsertExchangeRate[]): Promise<void>;
 
   getItinerary(id: number): Promise<Itinerary | undefined>;
+  // Itineraries the user owns or has been added to as a member
   getItinerariesByUserId(userId: number): Promise<Itinerary[]>;
   createItinerary(
     itinerary: InsertItinerary & { userId: number }
   ): Promise<Itinerary>;
+  // Content changes also save a version; change defaults to an anonymous edit
   updateItinerary(
     id: number,
-    updates: Partial<UpdateItinerary>
+    updates: Partial<UpdateItinerary>,
+    change?: ItineraryChange
   ): Promise<Itinerary | undefined>;
   deleteItinerary(id: number): Promise<boolean>;
 
+  // Days and activities in relational form, ordered by day and position
+  getItineraryDays(itineraryId: number): Promise<ItineraryDayWithActivities[]>;
+  // Rewrites the relational rows only; updateItinerary already does this
+  // whenever generatedContent changes
+  replaceItineraryDays(itineraryId: number, days: DayPlan[]): Promise<void>;
+
+  getItineraryVersions(
+    itineraryId: number
+  ): Promise<ItineraryVersionWithAuthor[]>;
+  getItineraryVersion(id: number): Promise<ItineraryVersion | undefined>;
+  // Null for itineraries that have never been versioned
+  getLatestItineraryVersionId(itineraryId: number): Promise<number | null>;
+
+  createGenerationJob(
+    itineraryId: number,
+    userId: number
+  ): Promise<GenerationJob>;
+  getGenerationJob(id: number): Promise<GenerationJob | undefined>;
+  getLatestGenerationJob(
+    itineraryId: number
+  ): Promise<GenerationJob | undefined>;
+  updateGenerationJob(
+    id: number,
+    updates: Partial<Omit<GenerationJob, "id">>
+  ): Promise<GenerationJob | undefined>;
+  // Atomically moves the oldest queued job to running and returns it
+  claimNextGenerationJob(): Promise<GenerationJob | undefined>;
+  // Puts running jobs not updated since the given time back in the queue
+  requeueStaleGenerationJobs(updatedBefore: Date): Promise<number>;
+
+  getItineraryMessages(itineraryId: number): Promise<ItineraryMessage[]>;
+  getItineraryMessage(id: number): Promise<ItineraryMessage | undefined>;
+  createItineraryMessage(
+    message: InsertItineraryMessage
+  ): Promise<ItineraryMessage>;
+  updateItineraryMessage(
+    id: number,
+    updates: Partial<Omit<ItineraryMessage, "id">>
+  ): Promise<ItineraryMessage | undefined>;
+  // Marks every pending proposal on the itinerary as dismissed, except one
+  dismissPendingProposals(
+    itineraryId: number,
+    exceptId?: number
+  ): Promise<void>;
+
+  // Share links that have not been revoked, newest first
+  getItineraryShares(itineraryId: number): Promise<ItineraryShare[]>;
+  getItineraryShare(id: number): Promise<ItineraryShare | undefined>;
+  getItineraryShareByToken(token: string): Promise<ItineraryShare | undefined>;
+  createItineraryShare(share: InsertItineraryShare): Promise<ItineraryShare>;
+  revokeItineraryShare(id: number): Promise<ItineraryShare | undefined>;
+
+  // Collaborators other than the owner, oldest first
+  getItineraryMembers(itineraryId: number): Promise<ItineraryCollaborator[]>;
+  getItineraryMember(
+    itineraryId: number,
+    userId: number
+  ): Promise<ItineraryMember | undefined>;
+  addItineraryMember(member: InsertItineraryMember): Promise<ItineraryMember>;
+  updateItineraryMember(
+    itineraryId: number,
+    userId: number,
+    role: string
+  ): Promise<ItineraryMember | undefined>;
+  removeItineraryMember(itineraryId: number, userId: number): Promise<boolean>;
+
+  // Oldest first, in the order they were logged
+  getItineraryExpenses(itineraryId: number): Promise<ItineraryExpense[]>;
+  getItineraryExpense(id: number): Promise<ItineraryExpense | undefined>;
+  createItineraryExpense(
+    expense: InsertItineraryExpense
+  ): Promise<ItineraryExpense>;
+  updateItineraryExpense(
+    id: number,
+    updates: Partial<Omit<ItineraryExpense, "id" | "itineraryId">>
+  ): Promise<ItineraryExpense | undefined>;
+  deleteItineraryExpense(id: number): Promise<boolean>;
+
   sessionStore: session.Store;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private itineraries: Map<number, Itinerary>;
+  private generationJobs: Map<number, GenerationJob>;
+  private itineraryMessages: Map<number, ItineraryMessage>;
+  private itineraryVersions: Map<number, ItineraryVersion>;
+  private itineraryShares: Map<number, ItineraryShare>;
+  private itineraryMembers: Map<number, ItineraryMember>;
+  private itineraryExpenses: Map<number, ItineraryExpense>;
+  private itineraryDays: Map<number, ItineraryDay>;
+  private itineraryActivities: Map<number, ItineraryActivity>;
+  private exchangeRates: Map<string, ExchangeRate>;
   private currentUserId: number;
   private currentItineraryId: number;
+  private currentGenerationJobId: number;
+  private currentItineraryMessageId: number;
+  private currentItineraryVersionId: number;
+  private currentItineraryShareId: number;
+  private currentItineraryMemberId: number;
+  private currentItineraryExpenseId: number;
+  private currentItineraryDayId: number;
+  private currentItineraryActivityId: number;
   public sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.itineraries = new Map();
+    this.generationJobs = new Map();
+    this.itineraryMessages = new Map();
+    this.itineraryVersions = new Map();
+    this.itineraryShares = new Map();
+    this.itineraryMembers = new Map();
+    this.itineraryExpenses = new Map();
+    this.itineraryDays = new Map();
+    this.itineraryActivities = new Map();
+    this.exchangeRates = new Map();
     this.currentUserId = 1;
     this.currentItineraryId = 1;
+    this.currentGenerationJobId = 1;
+    this.currentItineraryMessageId = 1;
+    this.currentItineraryVersionId = 1;
+    this.currentItineraryShareId = 1;
+    this.currentItineraryMemberId = 1;
+    this.currentItineraryExpenseId = 1;
+    this.currentItineraryDayId = 1;
+    this.currentItineraryActivityId = 1;
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // 24 hours
     });
@@ -65,24 +325,60 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find((user) => user.email === email);
   }
 
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.calendarToken === token
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.currentUserId++;
     const user: User = {
       ...insertUser,
       id,
+      currency: "USD",
+      calendarToken: null,
       createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
   }
 
+  async updateUser(id: number, updates: Partial<Omit<User, "id">>) {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getExchangeRates(): Promise<ExchangeRate[]> {
+    return Array.from(this.exchangeRates.values());
+  }
+
+  async replaceExchangeRates(rates: InsertExchangeRate[]) {
+    this.exchangeRates.clear();
+    for (const rate of rates) {
+      this.exchangeRates.set(rate.currency, {
+        ...rate,
+        updatedAt: rate.updatedAt ?? new Date(),
+      });
+    }
+  }
+
   async getItinerary(id: number): Promise<Itinerary | undefined> {
     return this.itineraries.get(id);
   }
 
   async getItinerariesByUserId(userId: number): Promise<Itinerary[]> {
+    const memberOf = new Set(
+      Array.from(this.itineraryMembers.values())
+        .filter((member) => member.userId === userId)
+        .map((member) => member.itineraryId)
+    );
     return Array.from(this.itineraries.values()).filter(
-      (itinerary) => itinerary.userId === userId
+      (itinerary) => itinerary.userId === userId || memberOf.has(itinerary.id)
     );
   }
 
@@ -95,6 +391,8 @@ export class MemStorage implements IStorage {
       ...itinerary,
       id,
       description: itinerary.description ?? null,
+      budgetAmount: itinerary.budgetAmount ?? null,
+      budgetCurrency: itinerary.budgetCurrency ?? null,
       generatedContent: null,
       status: "draft",
       createdAt: now,
@@ -106,7 +404,8 @@ export class MemStorage implements IStorage {
 
   async updateItinerary(
     id: number,
-    updates: Partial<UpdateItinerary>
+    updates: Partial<UpdateItinerary>,
+    change?: ItineraryChange
   ): Promise<Itinerary | undefined> {
     const itinerary = this.itineraries.get(id);
     if (!itinerary) return undefined;
@@ -117,13 +416,412 @@ export class MemStorage implements IStorage {
       updatedAt: new Date(),
     };
     this.itineraries.set(id, updatedItinerary);
+
+    if (updates.generatedContent !== undefined) {
+      await this.replaceItineraryDays(id, updates.generatedContent?.days ?? []);
+    }
+
+    if (isContentChange(updates) && change?.snapshot !== false) {
+      const versionId = this.currentItineraryVersionId++;
+      this.itineraryVersions.set(versionId, {
+        id: versionId,
+        itineraryId: id,
+        authorId: change?.authorId ?? null,
+        reason: change?.reason ?? "edit",
+        title: updatedItinerary.title,
+        description: updatedItinerary.description,
+        generatedContent: updatedItinerary.generatedContent,
+        createdAt: new Date(),
+      });
+    }
+
     return updatedItinerary;
   }
 
+  async getItineraryVersions(
+    itineraryId: number
+  ): Promise<ItineraryVersionWithAuthor[]> {
+    return Array.from(this.itineraryVersions.values())
+      .filter((version) => version.itineraryId === itineraryId)
+      .sort((a, b) => b.id - a.id)
+      .map((version) => ({
+        ...version,
+        authorName:
+          version.authorId !== null
+            ? (this.users.get(version.authorId)?.username ?? null)
+            : null,
+      }));
+  }
+
+  async getItineraryVersion(id: number): Promise<ItineraryVersion | undefined> {
+    return this.itineraryVersions.get(id);
+  }
+
+  async getLatestItineraryVersionId(
+    itineraryId: number
+  ): Promise<number | null> {
+    const ids = Array.from(this.itineraryVersions.values())
+      .filter((version) => version.itineraryId === itineraryId)
+      .map((version) => version.id);
+    return ids.length > 0 ? Math.max(...ids) : null;
+  }
+
+  async getItineraryDays(
+    itineraryId: number
+  ): Promise<ItineraryDayWithActivities[]> {
+    const days = Array.from(this.itineraryDays.values())
+      .filter((day) => day.itineraryId === itineraryId)
+      .sort((a, b) => a.day - b.day);
+    return groupActivities(days, Array.from(this.itineraryActivities.values()));
+  }
+
+  async replaceItineraryDays(
+    itineraryId: number,
+    days: DayPlan[]
+  ): Promise<void> {
+    for (const day of Array.from(this.itineraryDays.values())) {
+      if (day.itineraryId === itineraryId) this.itineraryDays.delete(day.id);
+    }
+    for (const activity of Array.from(this.itineraryActivities.values())) {
+      if (activity.itineraryId === itineraryId) {
+        this.itineraryActivities.delete(activity.id);
+      }
+    }
+
+    for (const day of days) {
+      const dayId = this.currentItineraryDayId++;
+      this.itineraryDays.set(dayId, {
+        id: dayId,
+        itineraryId,
+        day: day.day,
+        date: day.date,
+        title: day.title,
+      });
+      day.activities.forEach((activity, position) => {
+        const id = this.currentItineraryActivityId++;
+        this.itineraryActivities.set(id, {
+          id,
+          dayId,
+          itineraryId,
+          position,
+          ...toActivityColumns(activity),
+        });
+      });
+    }
+  }
+
   async deleteItinerary(id: number): Promise<boolean> {
     const result = await db.delete(itineraries).where(eq(itineraries.id, id));
     return (result.rowCount ?? 0) > 0;
   }
+
+  async createGenerationJob(
+    itineraryId: number,
+    userId: number
+  ): Promise<GenerationJob> {
+    const id = this.currentGenerationJobId++;
+    const now = new Date();
+    const job: GenerationJob = {
+      id,
+      itineraryId,
+      userId,
+      status: "queued",
+      error: null,
+      errorDetails: null,
+      attempts: 0,
+      partialDays: null,
+      createdAt: now,
+      startedAt: null,
+      finishedAt: null,
+      updatedAt: now,
+    };
+    this.generationJobs.set(id, job);
+    return job;
+  }
+
+  async getGenerationJob(id: number): Promise<GenerationJob | undefined> {
+    return this.generationJobs.get(id);
+  }
+
+  async getLatestGenerationJob(
+    itineraryId: number
+  ): Promise<GenerationJob | undefined> {
+    return Array.from(this.generationJobs.values())
+      .filter((job) => job.itineraryId === itineraryId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+
+  async updateGenerationJob(
+    id: number,
+    updates: Partial<Omit<GenerationJob, "id">>
+  ): Promise<GenerationJob | undefined> {
+    const job = this.generationJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob: GenerationJob = {
+      ...job,
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.generationJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimNextGenerationJob(): Promise<GenerationJob | undefined> {
+    const next = Array.from(this.generationJobs.values())
+      .filter((job) => job.status === "queued")
+      .sort((a, b) => a.id - b.id)[0];
+    if (!next) return undefined;
+
+    return this.updateGenerationJob(next.id, {
+      status: "running",
+      attempts: next.attempts + 1,
+      startedAt: new Date(),
+    });
+  }
+
+  async requeueStaleGenerationJobs(updatedBefore: Date): Promise<number> {
+    const stale = Array.from(this.generationJobs.values()).filter(
+      (job) => job.status === "running" && job.updatedAt < updatedBefore
+    );
+    for (const job of stale) {
+      await this.updateGenerationJob(job.id, { status: "queued" });
+    }
+    return stale.length;
+  }
+
+  async getItineraryMessages(itineraryId: number): Promise<ItineraryMessage[]> {
+    return Array.from(this.itineraryMessages.values())
+      .filter((message) => message.itineraryId === itineraryId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getItineraryMessage(id: number): Promise<ItineraryMessage | undefined> {
+    return this.itineraryMessages.get(id);
+  }
+
+  async createItineraryMessage(
+    message: InsertItineraryMessage
+  ): Promise<ItineraryMessage> {
+    const id = this.currentItineraryMessageId++;
+    const newMessage: ItineraryMessage = {
+      ...message,
+      id,
+      userId: message.userId ?? null,
+      proposedContent: message.proposedContent ?? null,
+      proposalStatus: message.proposalStatus ?? null,
+      baseVersionId: message.baseVersionId ?? null,
+      createdAt: new Date(),
+    };
+    this.itineraryMessages.set(id, newMessage);
+    return newMessage;
+  }
+
+  async updateItineraryMessage(
+    id: number,
+    updates: Partial<Omit<ItineraryMessage, "id">>
+  ): Promise<ItineraryMessage | undefined> {
+    const message = this.itineraryMessages.get(id);
+    if (!message) return undefined;
+
+    const updatedMessage: ItineraryMessage = { ...message, ...updates };
+    this.itineraryMessages.set(id, updatedMessage);
+    return updatedMessage;
+  }
+
+  async dismissPendingProposals(
+    itineraryId: number,
+    exceptId?: number
+  ): Promise<void> {
+    for (const message of Array.from(this.itineraryMessages.values())) {
+      if (
+        message.itineraryId === itineraryId &&
+        message.proposalStatus === "pending" &&
+        message.id !== exceptId
+      ) {
+        this.itineraryMessages.set(message.id, {
+          ...message,
+          proposalStatus: "dismissed",
+        });
+      }
+    }
+  }
+
+  async getItineraryShares(itineraryId: number): Promise<ItineraryShare[]> {
+    return Array.from(this.itineraryShares.values())
+      .filter((share) => share.itineraryId === itineraryId && !share.revokedAt)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getItineraryShare(id: number): Promise<ItineraryShare | undefined> {
+    return this.itineraryShares.get(id);
+  }
+
+  async getItineraryShareByToken(
+    token: string
+  ): Promise<ItineraryShare | undefined> {
+    return Array.from(this.itineraryShares.values()).find(
+      (share) => share.token === token
+    );
+  }
+
+  async createItineraryShare(
+    share: InsertItineraryShare
+  ): Promise<ItineraryShare> {
+    const id = this.currentItineraryShareId++;
+    const newShare: ItineraryShare = {
+      ...share,
+      id,
+      expiresAt: share.expiresAt ?? null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.itineraryShares.set(id, newShare);
+    return newShare;
+  }
+
+  async revokeItineraryShare(id: number): Promise<ItineraryShare | undefined> {
+    const share = this.itineraryShares.get(id);
+    if (!share) return undefined;
+
+    const revokedShare: ItineraryShare = { ...share, revokedAt: new Date() };
+    this.itineraryShares.set(id, revokedShare);
+    return revokedShare;
+  }
+
+  async getItineraryMembers(
+    itineraryId: number
+  ): Promise<ItineraryCollaborator[]> {
+    return Array.from(this.itineraryMembers.values())
+      .filter((member) => member.itineraryId === itineraryId)
+      .sort((a, b) => a.id - b.id)
+      .map((member) => ({
+        userId: member.userId,
+        username: this.users.get(member.userId)?.username ?? "",
+        role: member.role as ItineraryCollaborator["role"],
+      }));
+  }
+
+  async getItineraryMember(
+    itineraryId: number,
+    userId: number
+  ): Promise<ItineraryMember | undefined> {
+    return Array.from(this.itineraryMembers.values()).find(
+      (member) => member.itineraryId === itineraryId && member.userId === userId
+    );
+  }
+
+  async addItineraryMember(
+    member: InsertItineraryMember
+  ): Promise<ItineraryMember> {
+    const id = this.currentItineraryMemberId++;
+    const newMember: ItineraryMember = {
+      ...member,
+      id,
+      invitedBy: member.invitedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.itineraryMembers.set(id, newMember);
+    return newMember;
+  }
+
+  async updateItineraryMember(
+    itineraryId: number,
+    userId: number,
+    role: string
+  ): Promise<ItineraryMember | undefined> {
+    const member = await this.getItineraryMember(itineraryId, userId);
+    if (!member) return undefined;
+
+    const updatedMember: ItineraryMember = { ...member, role };
+    this.itineraryMembers.set(member.id, updatedMember);
+    return updatedMember;
+  }
+
+  async removeItineraryMember(
+    itineraryId: number,
+    userId: number
+  ): Promise<boolean> {
+    const member = await this.getItineraryMember(itineraryId, userId);
+    return member ? this.itineraryMembers.delete(member.id) : false;
+  }
+
+  async getItineraryExpenses(itineraryId: number): Promise<ItineraryExpense[]> {
+    return Array.from(this.itineraryExpenses.values())
+      .filter((expense) => expense.itineraryId === itineraryId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getItineraryExpense(id: number): Promise<ItineraryExpense | undefined> {
+    return this.itineraryExpenses.get(id);
+  }
+
+  async createItineraryExpense(
+    expense: InsertItineraryExpense
+  ): Promise<ItineraryExpense> {
+    const id = this.currentItineraryExpenseId++;
+    const newExpense: ItineraryExpense = {
+      ...expense,
+      id,
+      day: expense.day ?? null,
+      activity: expense.activity ?? null,
+      createdBy: expense.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    this.itineraryExpenses.set(id, newExpense);
+    return newExpense;
+  }
+
+  async updateItineraryExpense(
+    id: number,
+    updates: Partial<Omit<ItineraryExpense, "id" | "itineraryId">>
+  ): Promise<ItineraryExpense | undefined> {
+    const expense = this.itineraryExpenses.get(id);
+    if (!expense) return undefined;
+
+    const updatedExpense: ItineraryExpense = { ...expense, ...updates };
+    this.itineraryExpenses.set(id, updatedExpense);
+    return updatedExpense;
+  }
+
+  async deleteItineraryExpense(id: number): Promise<boolean> {
+    return this.itineraryExpenses.delete(id);
+  }
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+async function writeItineraryDays(
+  tx: Transaction,
+  itineraryId: number,
+  days: DayPlan[]
+) {
+  await tx
+    .delete(itineraryDays)
+    .where(eq(itineraryDays.itineraryId, itineraryId));
+
+  for (const day of days) {
+    const [dayRow] = await tx
+      .insert(itineraryDays)
+      .values({
+        itineraryId,
+        day: day.day,
+        date: day.date,
+        title: day.title,
+      })
+      .returning();
+
+    if (day.activities.length > 0) {
+      await tx.insert(itineraryActivities).values(
+        day.activities.map((activity, position) => ({
+          ...toActivityColumns(activity),
+          dayId: dayRow.id,
+          itineraryId,
+          position,
+        }))
+      );
+    }
+  }
 }
 
 class PgStorage implements IStorage {
@@ -153,21 +851,93 @@ class PgStorage implements IStorage {
     return user;
   }
 
+  async getUserByCalendarToken(token: string) {
+    const [user] = await db
+      .select()
+      .from(users)
+      .where(eq(users.calendarToken, token));
+    return user;
+  }
+
   async createUser(user: InsertUser) {
     const [created] = await db.insert(users).values(user).returning();
     return created;
   }
 
+  async updateUser(id: number, updates: Partial<Omit<User, "id">>) {
+    const [updated] = await db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getExchangeRates() {
+    return await db.select().from(exchangeRates);
+  }
+
+  async replaceExchangeRates(rates: InsertExchangeRate[]) {
+    await db.transaction(async (tx) => {
+      await tx.delete(exchangeRates);
+      if (rates.length > 0) await tx.insert(exchangeRates).values(rates);
+    });
+  }
+
+  // Days are read from the relational tables. Itineraries that have not been
+  // backfilled yet keep the days stored in generated_content.
+  private async withRelationalDays(rows: Itinerary[]) {
+    const ids = rows.filter((row) => row.generatedContent).map((row) => row.id);
+    if (ids.length === 0) return rows;
+
+    const [days, activities] = await Promise.all([
+      db
+        .select()
+        .from(itineraryDays)
+        .where(inArray(itineraryDays.itineraryId, ids))
+        .orderBy(asc(itineraryDays.day)),
+      db
+        .select()
+        .from(itineraryActivities)
+        .where(inArray(itineraryActivities.itineraryId, ids)),
+    ]);
+
+    return rows.map((row) => {
+      const rowDays = days.filter((day) => day.itineraryId === row.id);
+      if (!row.generatedContent || rowDays.length === 0) return row;
+      return {
+        ...row,
+        generatedContent: {
+          ...row.generatedContent,
+          days: toDayPlans(groupActivities(rowDays, activities)),
+        },
+      };
+    });
+  }
+
   async getItinerary(id: number) {
     const [itinerary] = await db
       .select()
       .from(itineraries)
       .where(eq(itineraries.id, id));
-    return itinerary;
+    if (!itinerary) return undefined;
+
+    const [withDays] = await this.withRelationalDays([itinerary]);
+    return withDays;
   }
 
   async getItinerariesByUserId(userId: number) {
-    return db.select().from(itineraries).where(eq(itineraries.userId, userId));
+    const memberOf = db
+      .select({ itineraryId: itineraryMembers.itineraryId })
+      .from(itineraryMembers)
+      .where(eq(itineraryMembers.userId, userId));
+    const rows = await db
+      .select()
+      .from(itineraries)
+      .where(
+        or(eq(itineraries.userId, userId), inArray(itineraries.id, memberOf))
+      );
+    return this.withRelationalDays(rows);
   }
 
   async createItinerary(itinerary: InsertItinerary & { userId: number }) {
@@ -178,17 +948,366 @@ class PgStorage implements IStorage {
     return created;
   }
 
-  async updateItinerary(id: number, updates: Partial<UpdateItinerary>) {
+  async updateItinerary(
+    id: number,
+    updates: Partial<UpdateItinerary>,
+    change?: ItineraryChange
+  ) {
+    return db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(itineraries)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(itineraries.id, id))
+        .returning();
+
+      if (updated && updates.generatedContent !== undefined) {
+        await writeItineraryDays(tx, id, updates.generatedContent?.days ?? []);
+      }
+
+      if (updated && isContentChange(updates) && change?.snapshot !== false) {
+        await tx.insert(itineraryVersions).values({
+          itineraryId: id,
+          authorId: change?.authorId ?? null,
+          reason: change?.reason ?? "edit",
+          title: updated.title,
+          description: updated.description,
+          generatedContent: updated.generatedContent,
+        });
+      }
+
+      return updated;
+    });
+  }
+
+  async getItineraryDays(itineraryId: number) {
+    const [days, activities] = await Promise.all([
+      db
+        .select()
+        .from(itineraryDays)
+        .where(eq(itineraryDays.itineraryId, itineraryId))
+        .orderBy(asc(itineraryDays.day)),
+      db
+        .select()
+        .from(itineraryActivities)
+        .where(eq(itineraryActivities.itineraryId, itineraryId)),
+    ]);
+    return groupActivities(days, activities);
+  }
+
+  async replaceItineraryDays(itineraryId: number, days: DayPlan[]) {
+    await db.transaction((tx) => writeItineraryDays(tx, itineraryId, days));
+  }
+
+  async getItineraryVersions(itineraryId: number) {
+    const rows = await db
+      .select({ version: itineraryVersions, authorName: users.username })
+      .from(itineraryVersions)
+      .leftJoin(users, eq(itineraryVersions.authorId, users.id))
+      .where(eq(itineraryVersions.itineraryId, itineraryId))
+      .orderBy(desc(itineraryVersions.id));
+    return rows.map(({ version, authorName }) => ({ ...version, authorName }));
+  }
+
+  async getItineraryVersion(id: number) {
+    const [version] = await db
+      .select()
+      .from(itineraryVersions)
+      .where(eq(itineraryVersions.id, id));
+    return version;
+  }
+
+  async getLatestItineraryVersionId(itineraryId: number) {
+    const [latest] = await db
+      .select({ id: itineraryVersions.id })
+      .from(itineraryVersions)
+      .where(eq(itineraryVersions.itineraryId, itineraryId))
+      .orderBy(desc(itineraryVersions.id))
+      .limit(1);
+    return latest?.id ?? null;
+  }
+
+  async deleteItinerary(id: number) {
+    const result = await db.delete(itineraries).where(eq(itineraries.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async createGenerationJob(itineraryId: number, userId: number) {
+    const [created] = await db
+      .insert(generationJobs)
+      .values({ itineraryId, userId })
+      .returning();
+    return created;
+  }
+
+  async getGenerationJob(id: number) {
+    const [job] = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.id, id));
+    return job;
+  }
+
+  async getLatestGenerationJob(itineraryId: number) {
+    const [job] = await db
+      .select()
+      .from(generationJobs)
+      .where(eq(generationJobs.itineraryId, itineraryId))
+      .orderBy(desc(generationJobs.id))
+      .limit(1);
+    return job;
+  }
+
+  async updateGenerationJob(
+    id: number,
+    updates: Partial<Omit<GenerationJob, "id">>
+  ) {
     const [updated] = await db
-      .update(itineraries)
+      .update(generationJobs)
       .set({ ...updates, updatedAt: new Date() })
-      .where(eq(itineraries.id, id))
+      .where(eq(generationJobs.id, id))
       .returning();
     return updated;
   }
 
-  async deleteItinerary(id: number) {
-    const result = await db.delete(itineraries).where(eq(itineraries.id, id));
+  async claimNextGenerationJob() {
+    // SKIP LOCKED keeps two workers from picking up the same job
+    const [claimed] = await db
+      .update(generationJobs)
+      .set({
+        status: "running",
+        attempts: sql`${generationJobs.attempts} + 1`,
+        startedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(
+        eq(
+          generationJobs.id,
+          sql`(select ${generationJobs.id} from ${generationJobs} where ${generationJobs.status} = 'queued' order by ${generationJobs.id} limit 1 for update skip locked)`
+        )
+      )
+      .returning();
+    return claimed;
+  }
+
+  async requeueStaleGenerationJobs(updatedBefore: Date) {
+    const requeued = await db
+      .update(generationJobs)
+      .set({ status: "queued", updatedAt: new Date() })
+      .where(
+        and(
+          eq(generationJobs.status, "running"),
+          lt(generationJobs.updatedAt, updatedBefore)
+        )
+      )
+      .returning({ id: generationJobs.id });
+    return requeued.length;
+  }
+
+  async getItineraryMessages(itineraryId: number) {
+    return db
+      .select()
+      .from(itineraryMessages)
+      .where(eq(itineraryMessages.itineraryId, itineraryId))
+      .orderBy(asc(itineraryMessages.id));
+  }
+
+  async getItineraryMessage(id: number) {
+    const [message] = await db
+      .select()
+      .from(itineraryMessages)
+      .where(eq(itineraryMessages.id, id));
+    return message;
+  }
+
+  async createItineraryMessage(message: InsertItineraryMessage) {
+    const [created] = await db
+      .insert(itineraryMessages)
+      .values(message)
+      .returning();
+    return created;
+  }
+
+  async updateItineraryMessage(
+    id: number,
+    updates: Partial<Omit<ItineraryMessage, "id">>
+  ) {
+    const [updated] = await db
+      .update(itineraryMessages)
+      .set(updates)
+      .where(eq(itineraryMessages.id, id))
+      .returning();
+    return updated;
+  }
+
+  async dismissPendingProposals(itineraryId: number, exceptId?: number) {
+    await db
+      .update(itineraryMessages)
+      .set({ proposalStatus: "dismissed" })
+      .where(
+        and(
+          eq(itineraryMessages.itineraryId, itineraryId),
+          eq(itineraryMessages.proposalStatus, "pending"),
+          exceptId === undefined
+            ? undefined
+            : ne(itineraryMessages.id, exceptId)
+        )
+      );
+  }
+
+  async getItineraryShares(itineraryId: number) {
+    return db
+      .select()
+      .from(itineraryShares)
+      .where(
+        and(
+          eq(itineraryShares.itineraryId, itineraryId),
+          isNull(itineraryShares.revokedAt)
+        )
+      )
+      .orderBy(desc(itineraryShares.id));
+  }
+
+  async getItineraryShare(id: number) {
+    const [share] = await db
+      .select()
+      .from(itineraryShares)
+      .where(eq(itineraryShares.id, id));
+    return share;
+  }
+
+  async getItineraryShareByToken(token: string) {
+    const [share] = await db
+      .select()
+      .from(itineraryShares)
+      .where(eq(itineraryShares.token, token));
+    return share;
+  }
+
+  async createItineraryShare(share: InsertItineraryShare) {
+    const [created] = await db
+      .insert(itineraryShares)
+      .values(share)
+      .returning();
+    return created;
+  }
+
+  async revokeItineraryShare(id: number) {
+    const [revoked] = await db
+      .update(itineraryShares)
+      .set({ revokedAt: new Date() })
+      .where(eq(itineraryShares.id, id))
+      .returning();
+    return revoked;
+  }
+
+  async getItineraryMembers(itineraryId: number) {
+    const rows = await db
+      .select({
+        userId: itineraryMembers.userId,
+        username: users.username,
+        role: itineraryMembers.role,
+      })
+      .from(itineraryMembers)
+      .innerJoin(users, eq(itineraryMembers.userId, users.id))
+      .where(eq(itineraryMembers.itineraryId, itineraryId))
+      .orderBy(asc(itineraryMembers.id));
+    return rows.map((row) => ({
+      ...row,
+      role: row.role as ItineraryCollaborator["role"],
+    }));
+  }
+
+  async getItineraryMember(itineraryId: number, userId: number) {
+    const [member] = await db
+      .select()
+      .from(itineraryMembers)
+      .where(
+        and(
+          eq(itineraryMembers.itineraryId, itineraryId),
+          eq(itineraryMembers.userId, userId)
+        )
+      );
+    return member;
+  }
+
+  async addItineraryMember(member: InsertItineraryMember) {
+    const [created] = await db
+      .insert(itineraryMembers)
+      .values(member)
+      .returning();
+    return created;
+  }
+
+  async updateItineraryMember(
+    itineraryId: number,
+    userId: number,
+    role: string
+  ) {
+    const [updated] = await db
+      .update(itineraryMembers)
+      .set({ role })
+      .where(
+        and(
+          eq(itineraryMembers.itineraryId, itineraryId),
+          eq(itineraryMembers.userId, userId)
+        )
+      )
+      .returning();
+    return updated;
+  }
+
+  async removeItineraryMember(itineraryId: number, userId: number) {
+    const result = await db
+      .delete(itineraryMembers)
+      .where(
+        and(
+          eq(itineraryMembers.itineraryId, itineraryId),
+          eq(itineraryMembers.userId, userId)
+        )
+      );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getItineraryExpenses(itineraryId: number) {
+    return db
+      .select()
+      .from(itineraryExpenses)
+      .where(eq(itineraryExpenses.itineraryId, itineraryId))
+      .orderBy(asc(itineraryExpenses.id));
+  }
+
+  async getItineraryExpense(id: number) {
+    const [expense] = await db
+      .select()
+      .from(itineraryExpenses)
+      .where(eq(itineraryExpenses.id, id));
+    return expense;
+  }
+
+  async createItineraryExpense(expense: InsertItineraryExpense) {
+    const [created] = await db
+      .insert(itineraryExpenses)
+      .values(expense)
+      .returning();
+    return created;
+  }
+
+  async updateItineraryExpense(
+    id: number,
+    updates: Partial<Omit<ItineraryExpense, "id" | "itineraryId">>
+  ) {
+    const [updated] = await db
+      .update(itineraryExpenses)
+      .set(updates)
+      .where(eq(itineraryExpenses.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteItineraryExpense(id: number) {
+    const result = await db
+      .delete(itineraryExpenses)
+      .where(eq(itineraryExpenses.id, id));
     return (result.rowCount ?? 0) > 0;
   }
 }
@@ -0,0 +1,83 @@
+import { type Activity, type GeneratedItinerary } from "./itinerary";
+
+// Pure edits to the activities of generated itinerary content. Each returns
+// new content, or null when the day or activity does not exist. Used by the
+// API to apply manual edits and by the client for optimistic updates.
+
+export interface ActivityPosition {
+  day: number;
+  index: number;
+}
+
+function withActivities(
+  content: GeneratedItinerary,
+  dayNumber: number,
+  edit: (activities: Activity[]) => Activity[] | null
+): GeneratedItinerary | null {
+  const day = content.days.find((d) => d.day === dayNumber);
+  if (!day) return null;
+
+  const activities = edit([...day.activities]);
+  if (!activities) return null;
+
+  return {
+    ...content,
+    days: content.days.map((d) =>
+      d.day === dayNumber ? { ...d, activities } : d
+    ),
+  };
+}
+
+// Inserts at index, or appends when no index is given
+export function insertActivity(
+  content: GeneratedItinerary,
+  dayNumber: number,
+  activity: Activity,
+  index?: number
+) {
+  return withActivities(content, dayNumber, (activities) => {
+    const at = index ?? activities.length;
+    if (at > activities.length) return null;
+    activities.splice(at, 0, activity);
+    return activities;
+  });
+}
+
+export function replaceActivity(
+  content: GeneratedItinerary,
+  position: ActivityPosition,
+  activity: Activity
+) {
+  return withActivities(content, position.day, (activities) => {
+    if (!activities[position.index]) return null;
+    activities[position.index] = activity;
+    return activities;
+  });
+}
+
+export function removeActivity(
+  content: GeneratedItinerary,
+  position: ActivityPosition
+) {
+  return withActivities(content, position.day, (activities) => {
+    if (!activities[position.index]) return null;
+    activities.splice(position.index, 1);
+    return activities;
+  });
+}
+
+// The target index is a position in the destination day after the activity
+// has been taken out of its source day
+export function moveActivity(
+  content: GeneratedItinerary,
+  from: ActivityPosition,
+  to: ActivityPosition
+) {
+  const activity = content.days.find((d) => d.day === from.day)?.activities[
+    from.index
+  ];
+  if (!activity) return null;
+
+  const removed = removeActivity(content, from);
+  return removed && insertActivity(removed, to.day, activity, to.index);
+}
@@ -0,0 +1,143 @@
+// Reads the free-form time and duration strings the model writes for
+// activities, such as "7:30 PM", "14:00", "2-3 hours" or "45 minutes".
+
+export interface TimeOfDay {
+  hours: number;
+  minutes: number;
+}
+
+// null when the text is not a clock time, e.g. "Sunset" or "All day"
+export function parseActivityTime(time: string): TimeOfDay | null {
+  const match = time
+    .trim()
+    .match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]);
+  const minutes = match[2] ? parseInt(match[2]) : 0;
+  const meridiem = match[3]?.toLowerCase().replace(/\./g, "");
+  if (!meridiem && !match[2]) return null; // a bare number is not a time
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === "pm" && hours !== 12) hours += 12;
+    if (meridiem === "am" && hours === 12) hours = 0;
+  }
+  if (hours > 23 || minutes > 59) return null;
+
+  return { hours, minutes };
+}
+
+// Ranges such as "2-3 hours" use their lower bound. null when no length of
+// time can be found.
+export function parseDurationMinutes(duration: string): number | null {
+  let total = 0;
+  let found = false;
+  const pattern =
+    /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*\d+(?:\.\d+)?)?\s*(hours?|hrs?|h|minutes?|mins?|m)\b/gi;
+
+  for (const match of Array.from(duration.matchAll(pattern))) {
+    const value = parseFloat(match[1]);
+    total += match[2].toLowerCase().startsWith("h") ? value * 60 : value;
+    found = true;
+  }
+  return found ? Math.round(total) : null;
+}
+
+// Structured times are ISO 8601 local times of day, "HH:MM" in 24-hour form.
+// The day's date comes from its day plan; an end before the start means the
+// activity runs past midnight.
+
+export const LOCAL_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const toLocalTime = (minutes: number) => {
+  const wrapped = ((minutes % (24 * 60)) + 24 * 60) % (24 * 60);
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${pad(Math.floor(wrapped / 60))}:${pad(wrapped % 60)}`;
+};
+
+export const fromLocalTime = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// "14:30" becomes "2:30 PM"
+export function formatLocalTime(time: string) {
+  const minutes = fromLocalTime(time);
+  const hours = Math.floor(minutes / 60);
+  const meridiem = hours < 12 ? "AM" : "PM";
+  return `${hours % 12 || 12}:${time.slice(3)} ${meridiem}`;
+}
+
+export function formatDurationMinutes(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} minutes`;
+  const hoursText = `${hours} ${hours === 1 ? "hour" : "hours"}`;
+  return rest === 0 ? hoursText : `${hoursText} ${rest} minutes`;
+}
+
+interface ActivityTimes {
+  time: string;
+  duration?: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+// Minutes from startTime to endTime, crossing midnight if need be
+export function activityLengthMinutes({ startTime, endTime }: ActivityTimes) {
+  if (!startTime || !endTime) return null;
+  const length = fromLocalTime(endTime) - fromLocalTime(startTime);
+  return length < 0 ? length + 24 * 60 : length;
+}
+
+// Start and end as minutes since midnight, from the structured times when
+// present and otherwise read from the display strings. null when there is no
+// clock time; end is null when the length isn't known.
+export function activityMinutes(
+  activity: ActivityTimes
+): { start: number; end: number | null } | null {
+  if (activity.startTime) {
+    const start = fromLocalTime(activity.startTime);
+    const length = activityLengthMinutes(activity);
+    return { start, end: length === null ? null : start + length };
+  }
+
+  const time = parseActivityTime(activity.time);
+  if (!time) return null;
+  const start = time.hours * 60 + time.minutes;
+  const length = activity.duration
+    ? parseDurationMinutes(activity.duration)
+    : null;
+  return { start, end: length === null ? null : start + length };
+}
+
+// Keeps the display strings in step with the structured times. Activities
+// written before structured times existed get them parsed from their strings
+// where possible; the strings are left as they were.
+export function normalizeActivityTimes<T extends ActivityTimes>(
+  activity: T
+): T {
+  if (activity.startTime) {
+    const length = activityLengthMinutes(activity);
+    return {
+      ...activity,
+      time: formatLocalTime(activity.startTime),
+      duration:
+        length === null ? activity.duration : formatDurationMinutes(length),
+    };
+  }
+
+  const minutes = activityMinutes(activity);
+  if (!minutes) return activity;
+  return {
+    ...activity,
+    startTime: toLocalTime(minutes.start),
+    endTime: minutes.end === null ? undefined : toLocalTime(minutes.end),
+  };
+}
+
+// Display range for an activity, e.g. "10:00 AM – 12:30 PM"
+export const formatActivityTime = (activity: ActivityTimes) =>
+  activity.startTime && activity.endTime
+    ? `${formatLocalTime(activity.startTime)} – ${formatLocalTime(activity.endTime)}`
+    : activity.time;
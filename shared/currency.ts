@@ -0,0 +1,47 @@
+import { type ExchangeRate } from "./schema";
+import { type Money } from "./itinerary";
+
+// Converts through the shared base currency of the rate table. Returns null
+// when either currency has no rate, so callers can show the original amount.
+export function convertMoney(
+  money: Money,
+  currency: string,
+  rates: Pick<ExchangeRate, "currency" | "rate">[]
+): Money | null {
+  if (money.currency === currency) return money;
+
+  const from = rates.find((rate) => rate.currency === money.currency);
+  const to = rates.find((rate) => rate.currency === currency);
+  if (!from || !to) return null;
+
+  return { amount: (money.amount / from.rate) * to.rate, currency };
+}
+
+export function formatMoney({ amount, currency }: Money) {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: amount % 1 === 0 ? 0 : 2,
+    }).format(amount);
+  } catch {
+    // Intl rejects codes it does not know
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+// Adds the amount in the traveller's home currency, e.g. "€25 (~$27)", when
+// it differs and a rate is available
+export function formatMoneyIn(
+  money: Money,
+  currency: string | null,
+  rates: Pick<ExchangeRate, "currency" | "rate">[]
+) {
+  const converted =
+    currency && currency !== money.currency
+      ? convertMoney(money, currency, rates)
+      : null;
+  return converted
+    ? `${formatMoney(money)} (~${formatMoney(converted)})`
+    : formatMoney(money);
+}
@@ -0,0 +1,163 @@
+import { type ExchangeRate, type ItineraryExpense } from "./schema";
+import { convertMoney } from "./currency";
+
+// Pure settle-up maths for itinerary expenses, shared by the API and the
+// expenses tab. Amounts are worked out in whole cents of one currency so that
+// balances always add up to exactly zero.
+
+export interface ExpenseBalance {
+  userId: number;
+  // Positive when the others owe this person, negative when they owe
+  amount: number;
+}
+
+export interface SettleUpTransfer {
+  from: number;
+  to: number;
+  amount: number;
+}
+
+export interface ExpenseSummary {
+  currency: string;
+  balances: ExpenseBalance[];
+  transfers: SettleUpTransfer[];
+  // Expenses in a currency with no exchange rate, left out of the balances
+  excluded: number;
+}
+
+// Above this many people the exact search gets slow and the greedy pass is
+// used on its own
+const MAX_EXACT_PARTICIPANTS = 15;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Each participant owes an even share; the first few absorb leftover cents
+function addExpense(
+  cents: Map<number, number>,
+  expense: Pick<ItineraryExpense, "paidBy" | "participantIds">,
+  total: number
+) {
+  const share = Math.floor(total / expense.participantIds.length);
+  let remainder = total - share * expense.participantIds.length;
+
+  cents.set(expense.paidBy, (cents.get(expense.paidBy) ?? 0) + total);
+  for (const userId of expense.participantIds) {
+    const owed = share + (remainder > 0 ? 1 : 0);
+    if (remainder > 0) remainder--;
+    cents.set(userId, (cents.get(userId) ?? 0) - owed);
+  }
+}
+
+// Pays the largest debt into the largest credit until everyone is even. On a
+// group with no smaller subgroup that evens out, this is n - 1 transfers.
+function settleGreedily(balances: [number, number][]): SettleUpTransfer[] {
+  const open = balances.map(([userId, cents]) => ({ userId, cents }));
+  const transfers: SettleUpTransfer[] = [];
+
+  for (;;) {
+    open.sort((a, b) => a.cents - b.cents);
+    const debtor = open[0];
+    const creditor = open[open.length - 1];
+    if (!debtor || debtor.cents >= 0 || creditor.cents <= 0) break;
+
+    const cents = Math.min(-debtor.cents, creditor.cents);
+    debtor.cents += cents;
+    creditor.cents -= cents;
+    transfers.push({
+      from: debtor.userId,
+      to: creditor.userId,
+      amount: cents / 100,
+    });
+  }
+  return transfers;
+}
+
+// Splits people into as many groups that owe each other exactly as possible.
+// Every group of k people needs k - 1 transfers, so the most groups gives the
+// fewest transfers overall.
+function zeroSumGroups(balances: [number, number][]) {
+  const n = balances.length;
+  const full = (1 << n) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const groups = new Array<number>(full + 1).fill(0);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const lowest = mask & -mask;
+    const index = 31 - Math.clz32(lowest);
+    sums[mask] = sums[mask ^ lowest] + balances[index][1];
+
+    let best = 0;
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i)) best = Math.max(best, groups[mask ^ (1 << i)]);
+    }
+    groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Peel people off in an order whose running total returns to zero at the
+  // end of each group
+  const order: number[] = [];
+  let mask = full;
+  while (mask) {
+    const target = groups[mask] - (sums[mask] === 0 ? 1 : 0);
+    for (let i = 0; i < n; i++) {
+      if (mask & (1 << i) && groups[mask ^ (1 << i)] === target) {
+        order.unshift(i);
+        mask ^= 1 << i;
+        break;
+      }
+    }
+  }
+
+  const result: [number, number][][] = [];
+  let current: [number, number][] = [];
+  let running = 0;
+  for (const index of order) {
+    current.push(balances[index]);
+    running += balances[index][1];
+    if (running === 0) {
+      result.push(current);
+      current = [];
+    }
+  }
+  return result;
+}
+
+// The fewest transfers that leave every balance at zero
+export function settleUp(balances: ExpenseBalance[]): SettleUpTransfer[] {
+  const owing = balances
+    .map(({ userId, amount }): [number, number] => [userId, toCents(amount)])
+    .filter(([, cents]) => cents !== 0);
+
+  if (owing.length > MAX_EXACT_PARTICIPANTS) return settleGreedily(owing);
+  return zeroSumGroups(owing).flatMap(settleGreedily);
+}
+
+// Net balance of everyone who paid or shared a cost, in one currency
+export function summarizeExpenses(
+  expenses: ItineraryExpense[],
+  currency: string,
+  rates: Pick<ExchangeRate, "currency" | "rate">[]
+): ExpenseSummary {
+  const cents = new Map<number, number>();
+  let excluded = 0;
+
+  for (const expense of expenses) {
+    const converted = convertMoney(expense, currency, rates);
+    if (!converted) {
+      excluded++;
+      continue;
+    }
+    addExpense(cents, expense, toCents(converted.amount));
+  }
+
+  const balances = Array.from(cents, ([userId, amount]) => ({
+    userId,
+    amount: amount / 100,
+  }));
+  return {
+    currency,
+    balances,
+    transfers: settleUp(balances),
+    excluded,
+  };
+}
@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { insertItinerarySchema, type Itinerary } from "./schema";
+import { generatedItinerarySchema } from "./itinerary";
+
+// Portable JSON document for backing up a trip or moving it to another
+// account. Bump the version when the shape changes and keep parsing the old
+// versions here.
+
+export const ITINERARY_EXPORT_FORMAT = "wanderlust-itinerary";
+export const ITINERARY_EXPORT_VERSION = 1;
+
+export const itineraryExportSchema = z.object({
+  format: z.literal(ITINERARY_EXPORT_FORMAT),
+  version: z.literal(ITINERARY_EXPORT_VERSION),
+  exportedAt: z.string().datetime(),
+  itinerary: insertItinerarySchema.extend({
+    status: z.enum(["draft", "generated", "saved"]),
+    generatedContent: generatedItinerarySchema.nullable(),
+  }),
+});
+
+export type ItineraryExport = z.infer<typeof itineraryExportSchema>;
+
+// Ids, owners and timestamps are left out; an import gets fresh ones
+export function toItineraryExport(itinerary: Itinerary): ItineraryExport {
+  return {
+    format: ITINERARY_EXPORT_FORMAT,
+    version: ITINERARY_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    itinerary: {
+      title: itinerary.title,
+      description: itinerary.description,
+      location: itinerary.location,
+      startDate: itinerary.startDate,
+      endDate: itinerary.endDate,
+      tripType: itinerary.tripType,
+      transport: itinerary.transport,
+      accommodation: itinerary.accommodation,
+      dining: itinerary.dining,
+      ageGroup: itinerary.ageGroup,
+      interests: itinerary.interests,
+      budgetAmount: itinerary.budgetAmount,
+      budgetCurrency: itinerary.budgetCurrency,
+      status: itinerary.status as ItineraryExport["itinerary"]["status"],
+      generatedContent: itinerary.generatedContent,
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import {
+  type Activity,
+  type DayPlan,
+  type GeneratedItinerary,
+} from "./itinerary";
+import { formatActivityTime } from "./activity-time";
+
+// Text versions of an itinerary for pasting into chats and notes apps.
+// Markdown suits Notion and similar editors; plain text suits WhatsApp and
+// SMS, where Markdown symbols would show up literally.
+
+export type TextFormat = "markdown" | "text";
+
+// Day dates are plain YYYY-MM-DD strings, so format them without shifting
+// into the local timezone
+export const formatDayDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+const recommendationSections = (content: GeneratedItinerary) =>
+  [
+    ["Best Photo Spots", content.recommendations.bestPhotoSpots],
+    ["Local Tips", content.recommendations.localTips],
+    ["Weather & Packing", content.recommendations.weatherAndPacking],
+  ].filter(([, items]) => items.length > 0) as [string, string[]][];
+
+// Keeps model text such as "*must see*" from turning into formatting
+const escapeMarkdown = (value: string) =>
+  value.replace(/([\\`*_[\]<>#|])/g, "\\$1");
+
+function markdownActivity(activity: Activity) {
+  const e = escapeMarkdown;
+  const lines = [
+    `- **${e(formatActivityTime(activity))}** – ${e(activity.activity)}`,
+    `  ${e(activity.location)}${activity.duration ? ` · ${e(activity.duration)}` : ""}`,
+  ];
+  if (activity.notes) lines.push(`  _${e(activity.notes)}_`);
+  // Trailing double spaces keep the lines apart within the list item
+  return lines.join("  \n");
+}
+
+function markdownDay(day: DayPlan) {
+  return [
+    `## Day ${day.day}: ${escapeMarkdown(day.title)}`,
+    `_${formatDayDate(day.date)}_`,
+    day.activities.map(markdownActivity).join("\n"),
+  ].join("\n\n");
+}
+
+export function itineraryToMarkdown(content: GeneratedItinerary) {
+  const blocks = [`# ${escapeMarkdown(content.title)}`];
+  if (content.description) blocks.push(escapeMarkdown(content.description));
+  blocks.push(`**Duration:** ${escapeMarkdown(content.duration)}`);
+  blocks.push(...content.days.map(markdownDay));
+
+  const recommendations = recommendationSections(content);
+  if (recommendations.length > 0) {
+    blocks.push("## Recommendations");
+    for (const [title, items] of recommendations) {
+      blocks.push(
+        `### ${title}\n\n${items.map((item) => `- ${escapeMarkdown(item)}`).join("\n")}`
+      );
+    }
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+function textActivity(activity: Activity) {
+  const lines = [
+    `• ${formatActivityTime(activity)} – ${activity.activity}`,
+    `  ${activity.location}${activity.duration ? ` · ${activity.duration}` : ""}`,
+  ];
+  if (activity.notes) lines.push(`  ${activity.notes}`);
+  return lines.join("\n");
+}
+
+function textDay(day: DayPlan) {
+  return [
+    `DAY ${day.day}: ${day.title.toUpperCase()}`,
+    formatDayDate(day.date),
+    ...day.activities.map(textActivity),
+  ].join("\n");
+}
+
+export function itineraryToText(content: GeneratedItinerary) {
+  const blocks = [content.title.toUpperCase()];
+  if (content.description) blocks.push(content.description);
+  blocks.push(`Duration: ${content.duration}`);
+  blocks.push(...content.days.map(textDay));
+
+  const recommendations = recommendationSections(content);
+  if (recommendations.length > 0) {
+    blocks.push(
+      [
+        "RECOMMENDATIONS",
+        ...recommendations.map(
+          ([title, items]) =>
+            `${title}:\n${items.map((item) => `• ${item}`).join("\n")}`
+        ),
+      ].join("\n\n")
+    );
+  }
+  return blocks.join("\n\n") + "\n";
+}
+
+export const renderItineraryText = (
+  content: GeneratedItinerary,
+  format: TextFormat
+) =>
+  format === "markdown"
+    ? itineraryToMarkdown(content)
+    : itineraryToText(content);
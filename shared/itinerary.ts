@@ -0,0 +1,118 @@
+import { z } from "zod";
+import {
+  formatLocalTime,
+  normalizeActivityTimes,
+  LOCAL_TIME_PATTERN,
+} from "./activity-time";
+
+// Shape of the AI-generated content stored in itineraries.generated_content.
+// Shared by the server (to validate model output) and the client (to render).
+
+const isoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a date in YYYY-MM-DD format")
+  .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date");
+
+export const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Z]{3}$/, "Expected a three-letter ISO 4217 currency code");
+
+export const moneySchema = z.object({
+  amount: z.number().nonnegative(),
+  currency: currencyCodeSchema,
+});
+
+export const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  confidence: z.number().min(0).max(1).optional(), // how sure the geocoder was
+});
+
+const localTimeSchema = z
+  .string()
+  .regex(LOCAL_TIME_PATTERN, "Expected a 24-hour time in HH:MM format");
+
+const activityFieldsSchema = z.object({
+  startTime: localTimeSchema.optional(),
+  endTime: localTimeSchema.optional(),
+  time: z.string().min(1), // display string derived from startTime
+  pinned: z.boolean().optional(), // kept at its time when the route is optimized
+  period: z.enum(["morning", "afternoon", "evening"]),
+  activity: z.string().min(1),
+  location: z.string().min(1),
+  coordinates: coordinatesSchema.optional(), // geocoded from location
+  locationUnresolved: z.boolean().optional(), // the geocoder found no match
+  duration: z.string().optional(), // derived from endTime when it is set
+  cost: z.string().optional(), // free-form label such as "€€€"
+  estimatedCost: moneySchema.optional(),
+  actualCost: moneySchema.optional(), // entered by the traveller
+  notes: z.string().optional(),
+});
+
+// The model and API clients may send only structured times, so the display
+// string is filled in before validation; normalizing then keeps both forms
+// in step
+export const activitySchema = z
+  .preprocess((value) => {
+    if (typeof value !== "object" || value === null) return value;
+    const fields = value as Record<string, unknown>;
+    return !fields.time &&
+      typeof fields.startTime === "string" &&
+      LOCAL_TIME_PATTERN.test(fields.startTime)
+      ? { ...fields, time: formatLocalTime(fields.startTime) }
+      : value;
+  }, activityFieldsSchema)
+  .transform(normalizeActivityTimes);
+
+export const dayPlanSchema = z.object({
+  day: z.number().int().positive(),
+  date: isoDateSchema,
+  title: z.string().min(1),
+  activities: z.array(activitySchema),
+});
+
+export const recommendationsSchema = z.object({
+  bestPhotoSpots: z.array(z.string()),
+  localTips: z.array(z.string()),
+  weatherAndPacking: z.array(z.string()),
+});
+
+export const generatedItinerarySchema = z
+  .object({
+    title: z.string().min(1),
+    description: z.string(),
+    duration: z.string(),
+    days: z.array(dayPlanSchema).min(1),
+    recommendations: recommendationsSchema,
+  })
+  // Days are stored one row per day number
+  .superRefine((itinerary, ctx) => {
+    const seen = new Set<number>();
+    itinerary.days.forEach((day, index) => {
+      if (seen.has(day.day)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["days", index, "day"],
+          message: `Day ${day.day} appears more than once`,
+        });
+      }
+      seen.add(day.day);
+    });
+  });
+
+export type Money = z.infer<typeof moneySchema>;
+export type Coordinates = z.infer<typeof coordinatesSchema>;
+export type Activity = z.infer<typeof activitySchema>;
+export type DayPlan = z.infer<typeof dayPlanSchema>;
+export type Recommendations = z.infer<typeof recommendationsSchema>;
+export type GeneratedItinerary = z.infer<typeof generatedItinerarySchema>;
+
+// Content saved before validation existed may not match the schema, so stored
+// content is read through this rather than trusted. Parsing also normalizes
+// activity times. Returns null for content that doesn't match.
+export function parseStoredItinerary(
+  content: unknown
+): GeneratedItinerary | null {
+  const result = generatedItinerarySchema.safeParse(content);
+  return result.success ? result.data : null;
+}
@@ -0,0 +1,9 @@
+// Raster tile source for the itinerary map, served by GET /api/map-config so
+// a deployment can point at its own tiles without rebuilding the client
+
+export interface MapConfig {
+  // XYZ template such as https://tile.openstreetmap.org/{z}/{x}/{y}.png
+  tileUrl: string;
+  attribution: string;
+  maxZoom: number;
+}
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+// Options for GET /api/itineraries/:id/export.pdf. Lists arrive as comma
+// separated query parameters, e.g. ?template=booklet&days=1,2&sections=schedule
+
+export const pdfTemplates = ["compact", "booklet", "print"] as const;
+export type PdfTemplate = (typeof pdfTemplates)[number];
+
+export const pdfSections = [
+  "overview",
+  "schedule",
+  "costs",
+  "notes",
+  "recommendations",
+] as const;
+export type PdfSection = (typeof pdfSections)[number];
+
+const commaList = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string"
+        ? value.split(",").filter((entry) => entry.trim() !== "")
+        : value,
+    z.array(item)
+  );
+
+export const pdfExportOptionsSchema = z.object({
+  template: z.enum(pdfTemplates).default("booklet"),
+  // Day numbers to include; every day when omitted
+  days: commaList(z.coerce.number().int().positive()).optional(),
+  sections: commaList(z.enum(pdfSections)).default([...pdfSections]),
+});
+
+export type PdfExportOptions = z.infer<typeof pdfExportOptionsSchema>;
+
+export function pdfExportQuery(options: PdfExportOptions) {
+  const params = new URLSearchParams({
+    template: options.template,
+    sections: options.sections.join(","),
+  });
+  if (options.days) params.set("days", options.days.join(","));
+  return params.toString();
+}
@@ -0,0 +1,25 @@
+import { z } from "zod";
+import { type GenerationJob, type Itinerary } from "./schema";
+
+// Messages a browser sends over the /ws socket
+export const clientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  itineraryId: z.number().int().positive(),
+});
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
+// Change notifications pushed to everyone viewing an itinerary
+export type ItineraryEvent =
+  | { type: "itinerary.updated"; itineraryId: number; itinerary: Itinerary }
+  | { type: "itinerary.deleted"; itineraryId: number }
+  | {
+      type: "generation-job.updated";
+      itineraryId: number;
+      job: GenerationJob;
+    }
+  | { type: "messages.changed"; itineraryId: number }
+  | { type: "members.changed"; itineraryId: number }
+  | { type: "expenses.changed"; itineraryId: number };
+
+export type ServerMessage = ItineraryEvent | { type: "error"; message: string };
@@ -0,0 +1,187 @@
+import {
+  activityMinutes,
+  normalizeActivityTimes,
+  toLocalTime,
+} from "./activity-time";
+import { type Activity, type DayPlan } from "./itinerary";
+import { distanceKm, estimateTravelMinutes } from "./schedule-check";
+
+// Reorders a day's activities to cut the distance travelled between them,
+// working from stored coordinates only. Pinned activities, and ones that
+// can't be placed or timed, stay where they are; the rest are shuffled
+// between the remaining slots and given new times to match. Orders whose new
+// times would run into an activity that stays put are passed over.
+
+export interface RouteOptimization {
+  activities: Activity[];
+  // Straight-line distance between consecutive located activities
+  beforeKm: number;
+  afterKm: number;
+}
+
+// Beyond this many movable activities, trying every order gets too slow
+const MAX_EXHAUSTIVE = 8;
+const TIME_STEP_MINUTES = 15;
+
+export function routeDistanceKm(activities: Activity[]) {
+  const located = activities.filter((activity) => activity.coordinates);
+  let total = 0;
+  for (let i = 1; i < located.length; i++) {
+    total += distanceKm(located[i - 1].coordinates!, located[i].coordinates!);
+  }
+  return total;
+}
+
+const isMovable = (activity: Activity) =>
+  !activity.pinned &&
+  !!activity.coordinates &&
+  activityMinutes(activity) !== null;
+
+// Fills the movable slots with the given activities, in order
+function arrange(activities: Activity[], slots: number[], order: Activity[]) {
+  const arranged = [...activities];
+  slots.forEach((slot, i) => (arranged[slot] = order[i]));
+  return arranged;
+}
+
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [
+      item,
+      ...rest,
+    ])
+  );
+}
+
+function periodOf(minutes: number): Activity["period"] {
+  if (minutes < 12 * 60) return "morning";
+  if (minutes < 17 * 60) return "afternoon";
+  return "evening";
+}
+
+// Moved activities start at their slot's original time, or later when the
+// previous stop ends too late to get there by then. Returns null when that
+// pushes a moved activity into the time of one that stays put, such as a
+// pinned booking.
+function retime(
+  arranged: Activity[],
+  slots: number[],
+  original: Activity[],
+  transport: string
+) {
+  let previousEnd: number | null = null;
+  let previous: Activity | null = null;
+  let previousMoved = false;
+  const retimed: Activity[] = [];
+
+  for (let index = 0; index < arranged.length; index++) {
+    const activity = arranged[index];
+    const minutes = activityMinutes(activity);
+    if (!minutes) {
+      retimed.push(activity);
+      continue;
+    }
+    const length = minutes.end === null ? null : minutes.end - minutes.start;
+    const moved = slots.includes(index);
+
+    const travel =
+      previous?.coordinates && activity.coordinates
+        ? estimateTravelMinutes(
+            previous.coordinates,
+            activity.coordinates,
+            transport
+          )
+        : 0;
+    let start = minutes.start;
+    if (moved) {
+      start = activityMinutes(original[index])!.start;
+      if (previousEnd !== null) {
+        const earliest =
+          Math.ceil((previousEnd + travel) / TIME_STEP_MINUTES) *
+          TIME_STEP_MINUTES;
+        start = Math.max(start, earliest);
+      }
+      retimed.push(
+        normalizeActivityTimes({
+          ...activity,
+          startTime: toLocalTime(start),
+          endTime: length === null ? undefined : toLocalTime(start + length),
+          period: periodOf(start),
+        })
+      );
+    } else {
+      if (previousMoved && previousEnd! + travel > start) return null;
+      retimed.push(activity);
+    }
+
+    previousEnd = start + (length ?? 0);
+    previous = activity;
+    previousMoved = moved;
+  }
+  return retimed;
+}
+
+// The cheapest order whose new times fit around the activities that stay put
+function shortestRoute(
+  activities: Activity[],
+  slots: number[],
+  transport: string
+) {
+  const movable = slots.map((slot) => activities[slot]);
+  const schedule = (order: Activity[]) =>
+    order.every((activity, i) => activity === movable[i])
+      ? activities
+      : retime(arrange(activities, slots, order), slots, activities, transport);
+  const cost = (route: Activity[] | null) =>
+    route ? routeDistanceKm(route) : Infinity;
+
+  let best = activities;
+  let bestOrder = movable;
+  let bestCost = cost(best);
+
+  const consider = (order: Activity[]) => {
+    const route = schedule(order);
+    const routeCost = cost(route);
+    if (routeCost >= bestCost - 1e-9) return false;
+    best = route!;
+    bestOrder = order;
+    bestCost = routeCost;
+    return true;
+  };
+
+  if (movable.length <= MAX_EXHAUSTIVE) {
+    permutations(movable).forEach(consider);
+    return best;
+  }
+
+  // Swap pairs while that shortens the route
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < bestOrder.length - 1; i++) {
+      for (let j = i + 1; j < bestOrder.length; j++) {
+        const order = [...bestOrder];
+        [order[i], order[j]] = [order[j], order[i]];
+        if (consider(order)) improved = true;
+      }
+    }
+  }
+  return best;
+}
+
+export function optimizeDayRoute(
+  day: DayPlan,
+  transport: string
+): RouteOptimization {
+  const slots = day.activities.flatMap((activity, index) =>
+    isMovable(activity) ? [index] : []
+  );
+  const activities = shortestRoute(day.activities, slots, transport);
+
+  return {
+    activities,
+    beforeKm: routeDistanceKm(day.activities),
+    afterKm: routeDistanceKm(activities),
+  };
+}
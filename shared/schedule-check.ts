@@ -0,0 +1,158 @@
+import { activityMinutes } from "./activity-time";
+import {
+  type Activity,
+  type Coordinates,
+  type DayPlan,
+  type GeneratedItinerary,
+} from "./itinerary";
+
+// Flags day plans that can't work as written: activities whose times
+// overlap, too little time to get from one place to the next, and days that
+// run too long. Travel times are rough estimates from straight-line
+// distance, so these are warnings rather than validation errors.
+
+export type ScheduleWarningKind = "overlap" | "transfer" | "long-day";
+
+export interface ScheduleWarning {
+  kind: ScheduleWarningKind;
+  day: number;
+  // The later activity of the pair; absent for warnings about the whole day
+  activityIndex?: number;
+  message: string;
+}
+
+const LONG_DAY_MINUTES = 14 * 60;
+// Walking is assumed below this distance whatever the trip's transport
+const WALKING_KM = 1.5;
+const WALKING_KMH = 4.5;
+// Streets are rarely straight, so distances are stretched by this factor
+const DETOUR_FACTOR = 1.3;
+
+// Getting around the destination, by the transport picked for the trip.
+// Flights only get travellers there, so those trips use local transit.
+const LOCAL_TRAVEL: Record<string, { kmh: number; overheadMinutes: number }> = {
+  car: { kmh: 35, overheadMinutes: 10 }, // parking
+  bus: { kmh: 20, overheadMinutes: 10 }, // waiting at stops
+  train: { kmh: 25, overheadMinutes: 10 },
+  flight: { kmh: 25, overheadMinutes: 10 },
+  mixed: { kmh: 25, overheadMinutes: 10 },
+};
+
+// Great-circle distance in kilometres
+export function distanceKm(a: Coordinates, b: Coordinates) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) *
+      Math.cos(toRadians(b.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+export function estimateTravelMinutes(
+  from: Coordinates,
+  to: Coordinates,
+  transport: string
+) {
+  const km = distanceKm(from, to) * DETOUR_FACTOR;
+  if (km <= WALKING_KM) return Math.round((km / WALKING_KMH) * 60);
+
+  const { kmh, overheadMinutes } =
+    LOCAL_TRAVEL[transport] ?? LOCAL_TRAVEL.mixed;
+  return Math.round((km / kmh) * 60 + overheadMinutes);
+}
+
+const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+};
+
+interface TimedActivity {
+  activity: Activity;
+  index: number;
+  // Minutes since the start of the day
+  start: number;
+  end: number;
+}
+
+// Activities with a clock time, in the order they are listed. A time
+// earlier than the one before is taken to be after midnight.
+function timedActivities(day: DayPlan): TimedActivity[] {
+  const timed: TimedActivity[] = [];
+  let dayOffset = 0;
+  day.activities.forEach((activity, index) => {
+    const minutes = activityMinutes(activity);
+    if (!minutes) return;
+
+    let start = dayOffset + minutes.start;
+    const previous = timed[timed.length - 1];
+    if (previous && start < previous.start) {
+      dayOffset += 24 * 60;
+      start += 24 * 60;
+    }
+    const length = minutes.end === null ? 0 : minutes.end - minutes.start;
+    timed.push({ activity, index, start, end: start + length });
+  });
+  return timed;
+}
+
+export function checkDaySchedule(
+  day: DayPlan,
+  transport: string
+): ScheduleWarning[] {
+  const warnings: ScheduleWarning[] = [];
+  const timed = timedActivities(day);
+
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const current = timed[i];
+
+    if (current.start < previous.end) {
+      warnings.push({
+        kind: "overlap",
+        day: day.day,
+        activityIndex: current.index,
+        message: `Starts ${formatMinutes(previous.end - current.start)} before "${previous.activity.activity}" ends`,
+      });
+      continue;
+    }
+
+    const from = previous.activity.coordinates;
+    const to = current.activity.coordinates;
+    if (!from || !to) continue;
+    const travel = estimateTravelMinutes(from, to, transport);
+    const gap = current.start - previous.end;
+    if (travel > gap) {
+      warnings.push({
+        kind: "transfer",
+        day: day.day,
+        activityIndex: current.index,
+        message: `About ${formatMinutes(travel)} from ${previous.activity.location} (${Math.round(distanceKm(from, to))} km), with only ${formatMinutes(gap)} between them`,
+      });
+    }
+  }
+
+  if (timed.length > 0) {
+    const length =
+      Math.max(...timed.map((activity) => activity.end)) - timed[0].start;
+    if (length > LONG_DAY_MINUTES) {
+      warnings.push({
+        kind: "long-day",
+        day: day.day,
+        message: `Planned activities span ${formatMinutes(length)}`,
+      });
+    }
+  }
+
+  return warnings;
+}
+
+export const checkSchedule = (
+  content: GeneratedItinerary,
+  transport: string
+): ScheduleWarning[] =>
+  content.days.flatMap((day) => checkDaySchedule(day, transport));
@@ -6,15 +6,26 @@ import {
   boolean,
   timestamp,
   jsonb,
+  doublePrecision,
+  unique,
+  index,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import {
+  activitySchema,
+  currencyCodeSchema,
+  type DayPlan,
+  type GeneratedItinerary,
+} from "./itinerary";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
+  currency: text("currency").default("USD").notNull(), // home currency for costs
+  calendarToken: text("calendar_token").unique(), // secret for the webcal feed
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -34,18 +45,187 @@ export const itineraries = pgTable("itineraries", {
   dining: text("dining").notNull(),
   ageGroup: text("age_group").notNull(),
   interests: text("interests").notNull(),
-  generatedContent: jsonb("generated_content"), // AI-generated itinerary content
+  budgetAmount: doublePrecision("budget_amount"), // total trip budget
+  budgetCurrency: text("budget_currency"),
+  generatedContent: jsonb("generated_content").$type<GeneratedItinerary>(), // AI-generated itinerary content
   status: text("status").default("draft").notNull(), // draft, generated, saved
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Relational copy of generatedContent.days, kept in sync on every content write
+export const itineraryDays = pgTable(
+  "itinerary_days",
+  {
+    id: serial("id").primaryKey(),
+    itineraryId: integer("itinerary_id")
+      .references(() => itineraries.id, { onDelete: "cascade" })
+      .notNull(),
+    day: integer("day").notNull(),
+    date: text("date").notNull(),
+    title: text("title").notNull(),
+  },
+  (table) => [unique().on(table.itineraryId, table.day)]
+);
+
+export const itineraryActivities = pgTable(
+  "itinerary_activities",
+  {
+    id: serial("id").primaryKey(),
+    dayId: integer("day_id")
+      .references(() => itineraryDays.id, { onDelete: "cascade" })
+      .notNull(),
+    itineraryId: integer("itinerary_id")
+      .references(() => itineraries.id, { onDelete: "cascade" })
+      .notNull(),
+    position: integer("position").notNull(),
+    startTime: text("start_time"), // HH:MM local time
+    endTime: text("end_time"),
+    time: text("time").notNull(),
+    pinned: boolean("pinned").notNull().default(false),
+    period: text("period").notNull(), // morning, afternoon, evening
+    activity: text("activity").notNull(),
+    location: text("location").notNull(),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
+    geocodeConfidence: doublePrecision("geocode_confidence"),
+    locationUnresolved: boolean("location_unresolved").notNull().default(false),
+    duration: text("duration"),
+    cost: text("cost"),
+    estimatedCostAmount: doublePrecision("estimated_cost_amount"),
+    estimatedCostCurrency: text("estimated_cost_currency"),
+    actualCostAmount: doublePrecision("actual_cost_amount"),
+    actualCostCurrency: text("actual_cost_currency"),
+    notes: text("notes"),
+  },
+  (table) => [
+    index("itinerary_activities_day_position_idx").on(
+      table.dayId,
+      table.position
+    ),
+    index("itinerary_activities_itinerary_idx").on(table.itineraryId),
+  ]
+);
+
+export const generationJobs = pgTable("generation_jobs", {
+  id: serial("id").primaryKey(),
+  itineraryId: integer("itinerary_id")
+    .references(() => itineraries.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id")
+    .references(() => users.id)
+    .notNull(),
+  status: text("status").default("queued").notNull(), // queued, running, failed, done
+  error: text("error"),
+  errorDetails: jsonb("error_details"), // validation issues for unrepairable AI output
+  attempts: integer("attempts").default(0).notNull(),
+  partialDays: jsonb("partial_days").$type<DayPlan[]>(), // days received so far while running
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const itineraryMessages = pgTable("itinerary_messages", {
+  id: serial("id").primaryKey(),
+  itineraryId: integer("itinerary_id")
+    .references(() => itineraries.id, { onDelete: "cascade" })
+    .notNull(),
+  userId: integer("user_id").references(() => users.id), // null for AI replies
+  role: text("role").notNull(), // user, assistant
+  content: text("content").notNull(),
+  proposedContent: jsonb("proposed_content").$type<GeneratedItinerary>(), // AI-proposed itinerary changes
+  proposalStatus: text("proposal_status"), // pending, accepted, dismissed
+  baseVersionId: integer("base_version_id").references(
+    () => itineraryVersions.id
+  ), // latest version when the proposal was made
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const itineraryVersions = pgTable("itinerary_versions", {
+  id: serial("id").primaryKey(),
+  itineraryId: integer("itinerary_id")
+    .references(() => itineraries.id, { onDelete: "cascade" })
+    .notNull(),
+  authorId: integer("author_id").references(() => users.id),
+  reason: text("reason").notNull(), // generate, edit, refine, restore
+  title: text("title").notNull(),
+  description: text("description"),
+  generatedContent: jsonb("generated_content").$type<GeneratedItinerary>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const itineraryShares = pgTable("itinerary_shares", {
+  id: serial("id").primaryKey(),
+  itineraryId: integer("itinerary_id")
+    .references(() => itineraries.id, { onDelete: "cascade" })
+    .notNull(),
+  token: text("token").notNull().unique(),
+  createdBy: integer("created_by")
+    .references(() => users.id)
+    .notNull(),
+  expiresAt: timestamp("expires_at"), // null for links that never expire
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const itineraryMembers = pgTable(
+  "itinerary_members",
+  {
+    id: serial("id").primaryKey(),
+    itineraryId: integer("itinerary_id")
+      .references(() => itineraries.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: integer("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    role: text("role").notNull(), // editor, viewer (the owner is itineraries.user_id)
+    invitedBy: integer("invited_by").references(() => users.id),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.itineraryId, table.userId)]
+);
+
+// Shared trip costs: paidBy covered the amount for everyone in participantIds,
+// who split it evenly. day/activity optionally point at the planned activity
+// by name, since activity rows are rewritten on every itinerary edit.
+export const itineraryExpenses = pgTable("itinerary_expenses", {
+  id: serial("id").primaryKey(),
+  itineraryId: integer("itinerary_id")
+    .references(() => itineraries.id, { onDelete: "cascade" })
+    .notNull(),
+  description: text("description").notNull(),
+  amount: doublePrecision("amount").notNull(),
+  currency: text("currency").notNull(),
+  paidBy: integer("paid_by")
+    .references(() => users.id)
+    .notNull(),
+  participantIds: jsonb("participant_ids").$type<number[]>().notNull(),
+  day: integer("day"),
+  activity: text("activity"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Offline exchange rates, replaced as a whole by `npm run rates:import`. All
+// rows share one base currency, so any two currencies can be converted.
+export const exchangeRates = pgTable("exchange_rates", {
+  currency: text("currency").primaryKey(),
+  rate: doublePrecision("rate").notNull(), // units of currency per one base unit
+  base: text("base").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   email: true,
   password: true,
 });
 
+export const updateUserSchema = z.object({
+  currency: currencyCodeSchema,
+});
+
 export const insertItinerarySchema = createInsertSchema(itineraries).omit({
   id: true,
   userId: true,
@@ -55,15 +235,135 @@ export const insertItinerarySchema = createInsertSchema(itineraries).omit({
   updatedAt: true,
 });
 
-export const updateItinerarySchema = createInsertSchema(itineraries).pick({
+// Content changes go through the activity endpoints, so PUT
+// /api/itineraries/:id doesn't accept generatedContent
+export const updateItinerarySchema = createInsertSchema(itineraries, {
+  budgetAmount: z.number().nonnegative().nullable(),
+  budgetCurrency: currencyCodeSchema.nullable(),
+}).pick({
   title: true,
   description: true,
-  generatedContent: true,
   status: true,
+  budgetAmount: true,
+  budgetCurrency: true,
+});
+
+export const regenerateDaySchema = z.object({
+  instructions: z.string().trim().max(500).optional(),
+});
+
+export const swapActivitySchema = z.object({
+  activity: activitySchema,
+});
+
+export const addActivitySchema = z.object({
+  activity: activitySchema,
+  index: z.number().int().min(0).optional(),
+});
+
+// Edits that address activities by position carry the updatedAt of the copy
+// the client was looking at, and are rejected if the itinerary changed since
+const expectedUpdatedAtSchema = z.coerce.date();
+
+export const updateActivitySchema = z.object({
+  activity: activitySchema,
+  expectedUpdatedAt: expectedUpdatedAtSchema,
+});
+
+export const deleteActivitySchema = z.object({
+  expectedUpdatedAt: expectedUpdatedAtSchema,
+});
+
+const activityPositionSchema = z.object({
+  day: z.number().int().positive(),
+  index: z.number().int().min(0),
+});
+
+export const moveActivitySchema = z.object({
+  from: activityPositionSchema,
+  to: activityPositionSchema,
+  expectedUpdatedAt: expectedUpdatedAtSchema,
+});
+
+// The server reruns the optimizer, which only gives the order the user
+// previewed if the itinerary is unchanged
+export const optimizeRouteSchema = z.object({
+  expectedUpdatedAt: expectedUpdatedAtSchema,
+});
+
+export const createItineraryMessageSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+});
+
+export const createItineraryShareSchema = z.object({
+  expiresInDays: z.number().int().positive().max(365).optional(),
+});
+
+export const itineraryExpenseSchema = z.object({
+  description: z.string().trim().min(1).max(200),
+  amount: z.number().positive(),
+  currency: currencyCodeSchema,
+  paidBy: z.number().int().positive(),
+  participantIds: z.array(z.number().int().positive()).min(1),
+  day: z.number().int().positive().nullable().optional(),
+  activity: z.string().trim().min(1).nullable().optional(),
+});
+
+// Roles from least to most privileged
+export const itineraryRoles = ["viewer", "editor", "owner"] as const;
+export type ItineraryRole = (typeof itineraryRoles)[number];
+
+export function hasItineraryRole(role: ItineraryRole, minimum: ItineraryRole) {
+  return itineraryRoles.indexOf(role) >= itineraryRoles.indexOf(minimum);
+}
+
+// Collaborators can be invited as editors or viewers, never as owners
+export const memberRoleSchema = z.enum(["editor", "viewer"]);
+
+export const inviteItineraryMemberSchema = z.object({
+  username: z.string().trim().min(1),
+  role: memberRoleSchema,
+});
+
+export const updateItineraryMemberSchema = z.object({
+  role: memberRoleSchema,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = typeof exchangeRates.$inferInsert;
 export type InsertItinerary = z.infer<typeof insertItinerarySchema>;
-export type UpdateItinerary = z.infer<typeof updateItinerarySchema>;
+export type UpdateItinerary = z.infer<typeof updateItinerarySchema> & {
+  generatedContent?: GeneratedItinerary | null;
+};
 export type Itinerary = typeof itineraries.$inferSelect;
+export type ItineraryDay = typeof itineraryDays.$inferSelect;
+export type ItineraryActivity = typeof itineraryActivities.$inferSelect;
+export type ItineraryDayWithActivities = ItineraryDay & {
+  activities: ItineraryActivity[];
+};
+export type GenerationJob = typeof generationJobs.$inferSelect;
+export type ItineraryMessage = typeof itineraryMessages.$inferSelect;
+export type InsertItineraryMessage = typeof itineraryMessages.$inferInsert;
+export type ItineraryVersion = typeof itineraryVersions.$inferSelect;
+export type ItineraryVersionWithAuthor = ItineraryVersion & {
+  authorName: string | null;
+};
+export type ItineraryShare = typeof itineraryShares.$inferSelect;
+export type InsertItineraryShare = typeof itineraryShares.$inferInsert;
+// Itinerary as exposed through a public share link, without owner details
+export type SharedItinerary = Omit<Itinerary, "userId">;
+export type ItineraryExpense = typeof itineraryExpenses.$inferSelect;
+export type InsertItineraryExpense = typeof itineraryExpenses.$inferInsert;
+export type ItineraryMember = typeof itineraryMembers.$inferSelect;
+export type InsertItineraryMember = typeof itineraryMembers.$inferInsert;
+// Everyone with access to an itinerary, including the owner
+export type ItineraryCollaborator = {
+  userId: number;
+  username: string;
+  role: ItineraryRole;
+};
+export type VersionReason =
+  "generate" | "edit" | "refine" | "restore" | "import";